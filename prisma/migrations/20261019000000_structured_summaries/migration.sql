@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "Summary"
+  ADD COLUMN "videoId" TEXT,
+  ADD COLUMN "title" TEXT NOT NULL DEFAULT '',
+  ADD COLUMN "keyPoints" TEXT[] DEFAULT ARRAY[]::TEXT[],
+  ADD COLUMN "fullSummary" TEXT NOT NULL DEFAULT '',
+  ADD COLUMN "metadata" JSONB;
+
+-- Backfill structured columns from the legacy "<title>\n\nKey Points:\n- a\n- b\n\n<summary>" blob.
+-- Key points are split per line (not on "-") so points containing hyphens survive.
+WITH legacy AS (
+  SELECT
+    "id",
+    split_part("summary", E'\n', 1) AS "title",
+    substr("summary", strpos("summary", 'Key Points:') + length('Key Points:')) AS "rest"
+  FROM "Summary"
+  WHERE strpos("summary", 'Key Points:') > 0
+),
+split AS (
+  SELECT
+    "id",
+    "title",
+    CASE WHEN strpos("rest", E'\n\n') > 0
+      THEN substr("rest", 1, strpos("rest", E'\n\n') - 1)
+      ELSE "rest"
+    END AS "pointsBlock",
+    CASE WHEN strpos("rest", E'\n\n') > 0
+      THEN substr("rest", strpos("rest", E'\n\n') + 2)
+      ELSE ''
+    END AS "body"
+  FROM legacy
+)
+UPDATE "Summary" s
+SET
+  "title" = btrim(split."title"),
+  "keyPoints" = ARRAY(
+    SELECT btrim(regexp_replace(line, '^\s*-\s*', ''))
+    FROM unnest(regexp_split_to_array(split."pointsBlock", E'\n')) AS line
+    WHERE btrim(regexp_replace(line, '^\s*-\s*', '')) <> ''
+  ),
+  "fullSummary" = btrim(split."body")
+FROM split
+WHERE s."id" = split."id";
+
+-- Rows that never used the legacy layout keep their whole text as the summary body
+UPDATE "Summary"
+SET "fullSummary" = btrim("summary")
+WHERE strpos("summary", 'Key Points:') = 0;
+
+-- Recover the YouTube video id from watch, youtu.be and shorts URLs
+UPDATE "Summary"
+SET "videoId" = COALESCE(
+  substring("videoUrl" from '[?&]v=([A-Za-z0-9_-]{11})'),
+  substring("videoUrl" from 'youtu\.be/([A-Za-z0-9_-]{11})'),
+  substring("videoUrl" from '/shorts/([A-Za-z0-9_-]{11})')
+);
+
+-- DropColumn
+ALTER TABLE "Summary" DROP COLUMN "summary";
+
+-- CreateIndex
+CREATE INDEX "Summary_userId_createdAt_idx" ON "Summary"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Summary_videoId_idx" ON "Summary"("videoId");
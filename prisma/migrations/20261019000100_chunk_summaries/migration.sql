@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "ChunkSummary" (
+    "key" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChunkSummary_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN "chapters" JSONB,
+ADD COLUMN "keyPointStarts" JSONB;
+
+-- CreateTable
+CREATE TABLE "SummarySegment" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "start" DOUBLE PRECISION NOT NULL,
+    "duration" DOUBLE PRECISION NOT NULL,
+    "text" TEXT NOT NULL,
+
+    CONSTRAINT "SummarySegment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummarySegment_summaryId_position_key" ON "SummarySegment"("summaryId", "position");
+
+-- AddForeignKey
+ALTER TABLE "SummarySegment" ADD CONSTRAINT "SummarySegment_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
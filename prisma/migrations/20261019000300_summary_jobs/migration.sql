@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('queued', 'running', 'succeeded', 'failed');
+
+-- CreateTable
+CREATE TABLE "SummaryJob" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'queued',
+    "input" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "summaryId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SummaryJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SummaryJob_status_runAfter_idx" ON "SummaryJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "SummaryJob_userId_createdAt_idx" ON "SummaryJob"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SummaryJob" ADD CONSTRAINT "SummaryJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "CreditTransactionType" AS ENUM ('grant', 'debit', 'refund');
+
+-- CreateTable
+CREATE TABLE "CreditTransaction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "CreditTransactionType" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "summaryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreditTransaction_userId_createdAt_idx" ON "CreditTransaction"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CreditTransaction" ADD CONSTRAINT "CreditTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditTransaction" ADD CONSTRAINT "CreditTransaction_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Open the ledger with each existing user's current balance
+INSERT INTO "CreditTransaction" ("id", "userId", "type", "amount", "balanceAfter", "reason")
+SELECT gen_random_uuid()::text, "id", 'grant', "credits", "credits", 'opening_balance'
+FROM "User";
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN "videoSummaryId" TEXT;
+
+-- CreateTable
+CREATE TABLE "VideoSummary" (
+    "id" TEXT NOT NULL,
+    "cacheKey" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "keyPoints" TEXT[],
+    "fullSummary" TEXT NOT NULL,
+    "keyPointStarts" JSONB,
+    "chapters" JSONB,
+    "transcript" TEXT NOT NULL,
+    "segments" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VideoSummary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoSummary_cacheKey_key" ON "VideoSummary"("cacheKey");
+
+-- CreateIndex
+CREATE INDEX "VideoSummary_videoId_idx" ON "VideoSummary"("videoId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Summary_userId_videoSummaryId_key" ON "Summary"("userId", "videoSummaryId");
+
+-- AddForeignKey
+ALTER TABLE "Summary" ADD CONSTRAINT "Summary_videoSummaryId_fkey" FOREIGN KEY ("videoSummaryId") REFERENCES "VideoSummary"("id") ON DELETE SET NULL ON UPDATE CASCADE;
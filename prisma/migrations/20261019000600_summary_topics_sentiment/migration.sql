@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN "sentiment" TEXT,
+ADD COLUMN "topics" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "VideoSummary" ADD COLUMN "sentiment" TEXT,
+ADD COLUMN "topics" TEXT[] DEFAULT ARRAY[]::TEXT[];
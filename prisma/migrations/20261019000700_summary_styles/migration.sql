@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN "language" TEXT,
+ADD COLUMN "length" TEXT NOT NULL DEFAULT 'medium',
+ADD COLUMN "style" TEXT NOT NULL DEFAULT 'bullet_brief';
+
+-- AlterTable
+ALTER TABLE "VideoSummary" ADD COLUMN "language" TEXT,
+ADD COLUMN "length" TEXT NOT NULL DEFAULT 'medium',
+ADD COLUMN "style" TEXT NOT NULL DEFAULT 'bullet_brief';
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN "templateId" TEXT,
+ADD COLUMN "templateVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "VideoSummary" ADD COLUMN "templateId" TEXT,
+ADD COLUMN "templateVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PromptTemplate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromptTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PromptTemplate_userId_createdAt_idx" ON "PromptTemplate"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PromptTemplate" ADD CONSTRAINT "PromptTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
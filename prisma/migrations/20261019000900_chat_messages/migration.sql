@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "ChatRole" AS ENUM ('user', 'assistant');
+
+-- CreateTable
+CREATE TABLE "ChatMessage" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "role" "ChatRole" NOT NULL,
+    "content" TEXT NOT NULL,
+    "citations" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_summaryId_createdAt_idx" ON "ChatMessage"("summaryId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
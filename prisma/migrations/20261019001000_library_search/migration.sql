@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN "embedding" DOUBLE PRECISION[] DEFAULT ARRAY[]::DOUBLE PRECISION[],
+ADD COLUMN "embeddingModel" TEXT,
+ADD COLUMN "searchVector" tsvector;
+
+-- Keep "searchVector" in sync with the searchable columns. The 'simple'
+-- configuration doesn't stem, so it works the same for every summary
+-- language. Transcripts are truncated to stay within tsvector limits.
+CREATE FUNCTION summary_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('simple', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('simple', array_to_string(NEW."keyPoints", ' ')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(NEW."fullSummary", '')), 'C') ||
+    setweight(to_tsvector('simple', left(coalesce(NEW."transcript", ''), 200000)), 'D');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Summary_searchVector_update"
+BEFORE INSERT OR UPDATE OF "title", "keyPoints", "fullSummary", "transcript" ON "Summary"
+FOR EACH ROW EXECUTE FUNCTION summary_search_vector_update();
+
+-- Backfill existing rows through the trigger
+UPDATE "Summary" SET "title" = "title";
+
+-- CreateIndex
+CREATE INDEX "Summary_searchVector_idx" ON "Summary" USING GIN ("searchVector");
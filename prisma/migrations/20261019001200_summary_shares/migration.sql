@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "SummaryShare" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryShare_token_key" ON "SummaryShare"("token");
+
+-- CreateIndex
+CREATE INDEX "SummaryShare_summaryId_idx" ON "SummaryShare"("summaryId");
+
+-- AddForeignKey
+ALTER TABLE "SummaryShare" ADD CONSTRAINT "SummaryShare_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "SummaryBatch" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'queued',
+    "playlistId" TEXT,
+    "title" TEXT,
+    "options" JSONB,
+    "digestRequested" BOOLEAN NOT NULL DEFAULT false,
+    "digest" JSONB,
+    "digestError" TEXT,
+    "creditsReserved" INTEGER NOT NULL,
+    "creditsRefunded" INTEGER NOT NULL DEFAULT 0,
+    "reservationId" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SummaryBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SummaryBatchItem" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'queued',
+    "videoId" TEXT NOT NULL,
+    "input" JSONB,
+    "summaryId" TEXT,
+    "cached" BOOLEAN NOT NULL DEFAULT false,
+    "creditsCharged" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SummaryBatchItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SummaryBatch_userId_createdAt_idx" ON "SummaryBatch"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SummaryBatch_status_idx" ON "SummaryBatch"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryBatchItem_batchId_position_key" ON "SummaryBatchItem"("batchId", "position");
+
+-- AddForeignKey
+ALTER TABLE "SummaryBatch" ADD CONSTRAINT "SummaryBatch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryBatchItem" ADD CONSTRAINT "SummaryBatchItem_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "SummaryBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
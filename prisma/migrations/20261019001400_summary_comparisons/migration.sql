@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "SummaryKind" AS ENUM ('video', 'comparison');
+
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN "kind" "SummaryKind" NOT NULL DEFAULT 'video',
+ADD COLUMN "comparison" JSONB;
+
+-- CreateTable
+CREATE TABLE "SummarySource" (
+    "comparisonId" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "SummarySource_pkey" PRIMARY KEY ("comparisonId","sourceId")
+);
+
+-- CreateIndex
+CREATE INDEX "SummarySource_sourceId_idx" ON "SummarySource"("sourceId");
+
+-- AddForeignKey
+ALTER TABLE "SummarySource" ADD CONSTRAINT "SummarySource_comparisonId_fkey" FOREIGN KEY ("comparisonId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummarySource" ADD CONSTRAINT "SummarySource_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
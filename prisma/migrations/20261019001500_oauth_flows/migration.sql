@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "OAuthFlowStatus" AS ENUM ('pending', 'completed', 'failed');
+
+-- CreateTable
+CREATE TABLE "OAuthFlow" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "codeVerifier" TEXT NOT NULL,
+    "redirectTo" TEXT,
+    "pollTokenHash" TEXT,
+    "handoffCodeHash" TEXT,
+    "status" "OAuthFlowStatus" NOT NULL DEFAULT 'pending',
+    "result" JSONB,
+    "error" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OAuthFlow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OAuthFlow_pollTokenHash_key" ON "OAuthFlow"("pollTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OAuthFlow_handoffCodeHash_key" ON "OAuthFlow"("handoffCodeHash");
+
+-- CreateIndex
+CREATE INDEX "OAuthFlow_expiresAt_idx" ON "OAuthFlow"("expiresAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "OAuthFlow" ADD COLUMN     "browserKeyHash" TEXT;
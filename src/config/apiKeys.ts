@@ -0,0 +1,13 @@
+import { numberFromEnv } from "./env";
+
+// User-managed API key settings
+export const apiKeyConfig = {
+  maxKeysPerUser: numberFromEnv("API_KEY_MAX_PER_USER") ?? 25,
+  maxExpiryDays: numberFromEnv("API_KEY_MAX_EXPIRY_DAYS") ?? 365,
+  bcryptRounds: numberFromEnv("API_KEY_BCRYPT_ROUNDS") ?? 10,
+  // How long a checked key skips the bcrypt comparison; also how long a
+  // revoked key can keep working on other server instances
+  verifiedCacheTtlMs: numberFromEnv("API_KEY_CACHE_TTL_MS") ?? 60 * 1000,
+  // lastUsedAt is written at most this often per key
+  lastUsedWriteIntervalMs: numberFromEnv("API_KEY_LAST_USED_INTERVAL_MS") ?? 60 * 1000,
+};
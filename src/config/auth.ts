@@ -0,0 +1,62 @@
+import { numberFromEnv } from "./env";
+
+const supabaseUrl = (process.env.SUPABASE_URL || "").replace(/\/+$/, "");
+
+export type TokenVerifyMode = "local" | "remote";
+
+// Access token verification settings
+export const authConfig = {
+  // "local" checks signatures in-process, falling back to Supabase when no
+  // key is available for a token; "remote" asks Supabase for every token not
+  // in the cache, which also catches sessions revoked before they expire
+  verifyMode: (process.env.AUTH_VERIFY_MODE === "remote" ? "remote" : "local") as TokenVerifyMode,
+  // Shared secret for HS256 tokens (Supabase "JWT Secret")
+  jwtSecret: process.env.SUPABASE_JWT_SECRET || undefined,
+  // Public keys for asymmetric (RS256/ES256) tokens
+  jwksUrl:
+    process.env.SUPABASE_JWKS_URL ||
+    (supabaseUrl ? `${supabaseUrl}/auth/v1/.well-known/jwks.json` : undefined),
+  issuer: process.env.SUPABASE_JWT_ISSUER || (supabaseUrl ? `${supabaseUrl}/auth/v1` : undefined),
+  audience: process.env.SUPABASE_JWT_AUDIENCE || "authenticated",
+  // How long a verified token is trusted without checking again; entries
+  // never outlive the token's own expiry. Set to 0 to disable the cache.
+  tokenCacheTtlMs: numberFromEnv("AUTH_TOKEN_CACHE_TTL_MS") ?? 5 * 60 * 1000,
+  tokenCacheMaxEntries: numberFromEnv("AUTH_TOKEN_CACHE_MAX_ENTRIES") ?? 10_000,
+  jwksCacheTtlMs: numberFromEnv("AUTH_JWKS_CACHE_TTL_MS") ?? 10 * 60 * 1000,
+  // Longest access token lifetime configured in Supabase; sign-outs are
+  // remembered this long so earlier tokens can't be replayed
+  maxTokenLifetimeMs: numberFromEnv("AUTH_MAX_TOKEN_LIFETIME_MS") ?? 24 * 60 * 60 * 1000,
+  // Clock difference tolerated when checking exp and nbf, in seconds
+  clockToleranceSeconds: numberFromEnv("AUTH_CLOCK_TOLERANCE_SECONDS") ?? 5,
+};
+
+// Where Supabase email links send the user; the page there posts the link's
+// token_hash back to the API
+export const authRedirectConfig = {
+  emailVerification: process.env.AUTH_EMAIL_REDIRECT_URL || undefined,
+  passwordReset: process.env.AUTH_PASSWORD_RESET_REDIRECT_URL || undefined,
+};
+
+// Server-side OAuth sign-in
+export const oauthConfig = {
+  // Supabase provider names users may sign in with
+  providers: (process.env.OAUTH_PROVIDERS || "google,github")
+    .split(",")
+    .map((provider) => provider.trim())
+    .filter(Boolean),
+  // Public URL of GET /api/auth/oauth/callback; falls back to the origin of
+  // the request that started the flow. Must be in Supabase's redirect
+  // allow list, and on the host serving /start so polling flows get their
+  // flow cookie back.
+  callbackUrl: process.env.OAUTH_CALLBACK_URL || undefined,
+  // URL prefixes the callback may redirect to, e.g.
+  // https://<extension-id>.chromiumapp.org/
+  allowedRedirects: (process.env.OAUTH_ALLOWED_REDIRECTS || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean),
+  // Time allowed to finish signing in with the provider
+  flowTtlMs: numberFromEnv("OAUTH_FLOW_TTL_MS") ?? 10 * 60 * 1000,
+  // Time the extension has to collect the session after the callback
+  handoffTtlMs: numberFromEnv("OAUTH_HANDOFF_TTL_MS") ?? 2 * 60 * 1000,
+};
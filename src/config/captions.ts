@@ -0,0 +1,14 @@
+import { numberFromEnv } from "./env";
+
+// Transcript ingestion limits, overridable per environment
+export const captionConfig = {
+  // Raw caption file size accepted for parsing, in characters
+  maxFileChars: numberFromEnv("CAPTION_MAX_FILE_CHARS") ?? 5_000_000,
+  // Normalized transcript text size accepted for summarizing, in characters
+  maxTranscriptChars: numberFromEnv("TRANSCRIPT_MAX_CHARS") ?? 500_000,
+  // JSON body limit for routes that accept caption uploads, which arrive
+  // inside JSON bodies
+  bodyLimit: process.env.JSON_BODY_LIMIT || "10mb",
+  // JSON body limit for every other route
+  defaultBodyLimit: process.env.JSON_BODY_DEFAULT_LIMIT || "100kb",
+};
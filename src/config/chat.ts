@@ -0,0 +1,14 @@
+import { numberFromEnv } from "./env";
+
+// Follow-up chat settings, overridable per environment
+export const chatConfig = {
+  // Credits charged per answered question
+  cost: numberFromEnv("CHAT_MESSAGE_COST") ?? 1,
+  // Earlier messages sent back to the model as conversation context
+  historyMessages: numberFromEnv("CHAT_HISTORY_MESSAGES") ?? 10,
+  // Transcript budget per question; longer transcripts are narrowed to the
+  // excerpts that best match the question
+  contextTokens: numberFromEnv("CHAT_CONTEXT_TOKENS") ?? 4000,
+  excerptTokens: numberFromEnv("CHAT_EXCERPT_TOKENS") ?? 200,
+  maxQuestionLength: numberFromEnv("CHAT_MAX_QUESTION_LENGTH") ?? 2000,
+};
@@ -0,0 +1,8 @@
+import { numberFromEnv } from "./env";
+
+// Summary comparison settings, overridable per environment
+export const compareConfig = {
+  // Credits charged per comparison
+  cost: numberFromEnv("COMPARE_COST") ?? 1,
+  maxSources: numberFromEnv("COMPARE_MAX_SOURCES") ?? 10,
+};
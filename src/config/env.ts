@@ -0,0 +1,14 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+/**
+ * Read a numeric environment variable
+ * @param name Variable name
+ * @returns The parsed number, or undefined when unset or not a number
+ */
+export const numberFromEnv = (name: string): number | undefined => {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
@@ -0,0 +1,21 @@
+import { numberFromEnv } from "./env";
+
+// Background summary job settings, overridable per environment
+export const jobConfig = {
+  concurrency: numberFromEnv("SUMMARY_JOB_CONCURRENCY") ?? 2,
+  pollIntervalMs: numberFromEnv("SUMMARY_JOB_POLL_INTERVAL_MS") ?? 2000,
+  maxAttempts: numberFromEnv("SUMMARY_JOB_MAX_ATTEMPTS") ?? 3,
+  backoffBaseMs: numberFromEnv("SUMMARY_JOB_BACKOFF_MS") ?? 5000,
+  // Jobs marked running for longer than this without a worker in this
+  // process (e.g. their final status update failed) are requeued
+  staleAfterMs: numberFromEnv("SUMMARY_JOB_STALE_MS") ?? 15 * 60 * 1000,
+};
+
+// Multi-video batch settings
+export const batchConfig = {
+  maxItems: numberFromEnv("SUMMARY_BATCH_MAX_ITEMS") ?? 50,
+  // Batch videos summarized at the same time, across all batches
+  concurrency: numberFromEnv("SUMMARY_BATCH_CONCURRENCY") ?? 2,
+  // Credits charged for the combined digest across all videos
+  digestCost: numberFromEnv("SUMMARY_BATCH_DIGEST_COST") ?? 1,
+};
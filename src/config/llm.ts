@@ -0,0 +1,77 @@
+import { numberFromEnv } from "./env";
+
+export type ProviderName = "gemini" | "openai" | "fake";
+
+export const PROVIDER_NAMES: ProviderName[] = ["gemini", "openai", "fake"];
+
+// Comma-separated list from the environment, e.g. GEMINI_ALLOWED_MODELS
+const listFromEnv = (name: string): string[] =>
+  (process.env[name] || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Default provider settings, overridable per environment
+export const llmConfig = {
+  provider: (process.env.LLM_PROVIDER || "gemini") as ProviderName,
+  model: process.env.LLM_MODEL || undefined,
+  temperature: numberFromEnv("LLM_TEMPERATURE"),
+  maxOutputTokens: numberFromEnv("LLM_MAX_OUTPUT_TOKENS"),
+  timeoutMs: numberFromEnv("LLM_TIMEOUT_MS") ?? 60000,
+  // Transient provider errors are retried with exponential backoff
+  maxRetries: numberFromEnv("LLM_MAX_RETRIES") ?? 2,
+  retryBaseMs: numberFromEnv("LLM_RETRY_BASE_MS") ?? 1000,
+  gemini: {
+    apiKey: process.env.GEMINI_API_KEY || "",
+    defaultModel: process.env.GEMINI_MODEL || "gemini-2.0-flash-thinking-exp-01-21",
+    embeddingModel: process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004",
+    // Models callers may request besides the defaults
+    allowedModels: listFromEnv("GEMINI_ALLOWED_MODELS"),
+  },
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY || "",
+    baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+    defaultModel: process.env.OPENAI_MODEL || "gpt-4o-mini",
+    embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small",
+    // Some compatible servers reject response_format; set to "false" for those
+    jsonMode: process.env.OPENAI_JSON_MODE !== "false",
+    allowedModels: listFromEnv("OPENAI_ALLOWED_MODELS"),
+  },
+  // Upper bound for per-request maxOutputTokens when LLM_MAX_OUTPUT_TOKENS
+  // is unset
+  maxOutputTokensCap: numberFromEnv("LLM_MAX_OUTPUT_TOKENS_CAP") ?? 8192,
+};
+
+if (!PROVIDER_NAMES.includes(llmConfig.provider)) {
+  console.error(
+    `Unknown LLM_PROVIDER "${llmConfig.provider}", falling back to gemini`
+  );
+  llmConfig.provider = "gemini";
+}
+
+// Embeddings for semantic library search; disabled unless a provider is set.
+// "fake" gives deterministic local vectors without network calls.
+export const embeddingConfig = {
+  provider: (process.env.EMBEDDING_PROVIDER || undefined) as ProviderName | undefined,
+  model: process.env.EMBEDDING_MODEL || undefined,
+};
+
+if (embeddingConfig.provider && !PROVIDER_NAMES.includes(embeddingConfig.provider)) {
+  console.error(
+    `Unknown EMBEDDING_PROVIDER "${embeddingConfig.provider}", semantic search disabled`
+  );
+  embeddingConfig.provider = undefined;
+}
+
+// Transcripts longer than singlePassTokens are summarized chunk by chunk
+export const chunkingConfig = {
+  singlePassTokens: numberFromEnv("SUMMARY_SINGLE_PASS_TOKENS") ?? 12000,
+  chunkTokens: numberFromEnv("SUMMARY_CHUNK_TOKENS") ?? 6000,
+  overlapTokens: numberFromEnv("SUMMARY_CHUNK_OVERLAP_TOKENS") ?? 200,
+  concurrency: numberFromEnv("SUMMARY_CHUNK_CONCURRENCY") ?? 2,
+};
+
+// Credits charged when a summary is served from the shared cache
+export const cacheConfig = {
+  hitCost: numberFromEnv("SUMMARY_CACHE_HIT_COST") ?? 0,
+};
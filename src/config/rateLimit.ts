@@ -0,0 +1,37 @@
+import { numberFromEnv } from "./env";
+
+export interface RateLimitRule {
+  windowMs: number;
+  // Requests allowed per key per window
+  max: number;
+}
+
+export type RateLimitGroup = "auth" | "session" | "public" | "generate" | "chat" | "search";
+
+// Each group reads RATE_LIMIT_<GROUP>_WINDOW_MS and RATE_LIMIT_<GROUP>_MAX
+const rule = (group: RateLimitGroup, windowMs: number, max: number): RateLimitRule => ({
+  windowMs: numberFromEnv(`RATE_LIMIT_${group.toUpperCase()}_WINDOW_MS`) ?? windowMs,
+  max: numberFromEnv(`RATE_LIMIT_${group.toUpperCase()}_MAX`) ?? max,
+});
+
+// Rate limits per route group. Sign-in, sign-up and public share links are
+// limited per client IP; everything else per authenticated user. "session"
+// covers token refresh and the OAuth callback and code exchange, which
+// signed-in clients hit routinely, so they don't use up the "auth" budget
+// meant to slow down password guessing.
+export const rateLimitConfig = {
+  enabled: process.env.RATE_LIMIT_ENABLED !== "false",
+  // redis:// or rediss:// URL of a Redis-compatible server shared by all
+  // instances; counters are kept in process memory when unset
+  redisUrl: process.env.RATE_LIMIT_REDIS_URL || undefined,
+  // Reverse proxies in front of the server, so req.ip is the client address
+  trustProxyHops: numberFromEnv("TRUST_PROXY_HOPS") ?? 0,
+  groups: {
+    auth: rule("auth", 15 * 60 * 1000, 20),
+    session: rule("session", 60 * 1000, 30),
+    public: rule("public", 60 * 1000, 60),
+    generate: rule("generate", 60 * 1000, 10),
+    chat: rule("chat", 60 * 1000, 20),
+    search: rule("search", 60 * 1000, 60),
+  } as Record<RateLimitGroup, RateLimitRule>,
+};
@@ -0,0 +1,10 @@
+import { numberFromEnv } from "./env";
+
+// Public share link settings
+export const shareConfig = {
+  // Origin used in returned share URLs, e.g. https://api.example.com; falls
+  // back to the origin of the request that created the link
+  baseUrl: process.env.SHARE_BASE_URL?.replace(/\/+$/, "") || null,
+  maxExpiryDays: numberFromEnv("SHARE_MAX_EXPIRY_DAYS") ?? 365,
+  maxLinksPerSummary: numberFromEnv("SHARE_MAX_LINKS_PER_SUMMARY") ?? 20,
+};
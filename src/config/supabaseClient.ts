@@ -0,0 +1,33 @@
+import { createClient } from "@supabase/supabase-js";
+import dotenv from "dotenv";
+dotenv.config();
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error("Missing Supabase configuration. Please check environment variables.");
+}
+
+const clientOptions = {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+    detectSessionInUrl: false,
+  },
+};
+
+// Shared by every request, so only for admin calls and calls that take the
+// user's token as an argument. persistSession: false only keeps sessions out
+// of storage; supabase-js still holds the last signed-in session in memory.
+const supabase = createClient(supabaseUrl || "", supabaseServiceKey || "", clientOptions);
+
+/**
+ * Throwaway client for one call that signs a user in (password sign-in,
+ * sign-up, refresh, email links), so the session it receives stays out of
+ * the shared client
+ */
+export const createSessionClient = () =>
+  createClient(supabaseUrl || "", supabaseServiceKey || "", clientOptions);
+
+export default supabase;
@@ -1,14 +1,55 @@
-import express from "express";
+import express, { NextFunction, Request, Response } from "express";
 import cors from "cors";
 import dotenv from "dotenv";
 import router from "./routes";
+import { startJobWorker } from "./services/summaryJobs";
+import { resumeSummaryBatches } from "./services/summaryBatches";
+import { captionConfig } from "./config/captions";
+import { rateLimitConfig } from "./config/rateLimit";
 dotenv.config();
 
+// Routes whose bodies may carry caption files or pasted transcripts
+const UPLOAD_PATHS = [
+  "/api/summary/generate",
+  "/api/summary/jobs",
+  "/api/summary/batches",
+  "/api/summary/captions",
+];
+
 const app = express();
+// Rate limits key unauthenticated requests by client IP
+app.set("trust proxy", rateLimitConfig.trustProxyHops);
 app.use(cors());
-app.use(express.json());
+// Bodies parsed by the first parser are skipped by the second
+app.use(UPLOAD_PATHS, express.json({ limit: captionConfig.bodyLimit }));
+app.use(express.json({ limit: captionConfig.defaultBodyLimit }));
 
 app.use("/api", router);
 
+// Body parser failures: oversized or malformed JSON
+app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+  if (error?.type === "entity.too.large") {
+    res.status(413).json({
+      success: false,
+      error: `Request body exceeds the ${error.limit} byte limit`,
+      code: "payload_too_large",
+    });
+    return;
+  }
+  if (error?.type === "entity.parse.failed") {
+    res.status(400).json({
+      success: false,
+      error: "Request body is not valid JSON",
+      code: "invalid_json",
+    });
+    return;
+  }
+  next(error);
+});
+
 const PORT = 3000;
-app.listen(PORT, () => console.log(`Server running on port ${PORT}`));
+app.listen(PORT, () => {
+  console.log(`Server running on port ${PORT}`);
+  startJobWorker();
+  resumeSummaryBatches();
+});
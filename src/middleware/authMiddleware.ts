@@ -1,22 +1,17 @@
 // src/middleware/authMiddleware.ts
 import { Request, Response, NextFunction } from "express";
-import { createClient } from "@supabase/supabase-js";
-import dotenv from "dotenv";
 import prisma from "../config/prismaClient";
-dotenv.config();
-
-// Create Supabase client with better error handling
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-if (!supabaseUrl || !supabaseServiceKey) {
-  console.error("Missing Supabase configuration. Please check environment variables.");
-}
-
-const supabase = createClient(
-  supabaseUrl || "",
-  supabaseServiceKey || ""
-);
+import { authConfig } from "../config/auth";
+import { initialCreditGrant, SIGNUP_CREDITS } from "../services/credits";
+import { verifyAccessToken, VerifiedClaims } from "../services/tokenVerification";
+import {
+  ApiKeyScope,
+  isApiKey,
+  requiredScope,
+  touchApiKey,
+  verifyApiKey,
+} from "../services/apiKeys";
+import { HttpError } from "../utils/httpError";
 
 export interface AuthRequest extends Request {
   user?: {
@@ -25,14 +20,164 @@ export interface AuthRequest extends Request {
     name: string;
     image: string;
   };
+  // Set when the request authenticated with an API key instead of a session
+  apiKey?: {
+    id: string;
+    scopes: ApiKeyScope[];
+  };
 }
 
+type AuthUser = NonNullable<AuthRequest["user"]>;
+
+// Claims fingerprint and resolved user per user id, so repeat requests with
+// unchanged claims skip the user lookup and see the same user as the first
+const syncedProfiles = new Map<string, { fingerprint: string; user: AuthUser }>();
+
+const profileFingerprint = (claims: VerifiedClaims): string =>
+  JSON.stringify([claims.email, claims.name, claims.imageUrl, claims.provider]);
+
+const rememberProfile = (fingerprint: string, user: AuthUser) => {
+  syncedProfiles.delete(user.id);
+  while (syncedProfiles.size >= authConfig.tokenCacheMaxEntries) {
+    syncedProfiles.delete(syncedProfiles.keys().next().value!);
+  }
+  syncedProfiles.set(user.id, { fingerprint, user });
+};
+
+/**
+ * Make sure the local user row exists and matches the token's profile
+ * claims, writing only when something changed
+ * @returns The user as seen by routes
+ */
+const syncUserProfile = async (claims: VerifiedClaims): Promise<AuthUser> => {
+  const fingerprint = profileFingerprint(claims);
+  const fromClaims = {
+    id: claims.id,
+    email: claims.email,
+    name: claims.name || "",
+    image: claims.imageUrl || "",
+  };
+  const synced = syncedProfiles.get(claims.id);
+  if (synced?.fingerprint === fingerprint) return { ...synced.user };
+
+  let dbUser = await prisma.user.findUnique({ where: { id: claims.id } });
+
+  if (!dbUser) {
+    try {
+      dbUser = await prisma.user.create({
+        data: {
+          id: claims.id,
+          email: claims.email,
+          name: claims.name || "New User",
+          imageUrl: claims.imageUrl || undefined,
+          provider: claims.provider || "supabase",
+          credits: SIGNUP_CREDITS,
+          creditTransactions: initialCreditGrant(SIGNUP_CREDITS),
+        },
+      });
+    } catch (createError) {
+      console.error("Failed to create user in database:", createError);
+      // Continue with token data; the next request tries again
+      return fromClaims;
+    }
+  } else {
+    // Claims that are missing keep the stored value
+    const changes = {
+      ...(claims.email && claims.email !== dbUser.email ? { email: claims.email } : {}),
+      ...(claims.name && claims.name !== dbUser.name ? { name: claims.name } : {}),
+      ...(claims.imageUrl && claims.imageUrl !== dbUser.imageUrl
+        ? { imageUrl: claims.imageUrl }
+        : {}),
+      ...(claims.provider && claims.provider !== dbUser.provider
+        ? { provider: claims.provider }
+        : {}),
+    };
+
+    if (Object.keys(changes).length > 0) {
+      try {
+        dbUser = await prisma.user.update({ where: { id: claims.id }, data: changes });
+      } catch (updateError) {
+        console.error("Failed to update user in database:", updateError);
+        // Continue with existing dbUser data
+        return { ...fromClaims, name: dbUser.name || fromClaims.name };
+      }
+    }
+  }
+
+  const user = {
+    id: claims.id,
+    email: claims.email || dbUser.email,
+    name: claims.name || dbUser.name || "",
+    image: claims.imageUrl || dbUser.imageUrl || "",
+  };
+  rememberProfile(fingerprint, user);
+  return { ...user };
+};
+
+/**
+ * Authenticate with an API key, checking it has the scope the route needs
+ */
+const authenticateApiKey = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  key: string
+): Promise<void> => {
+  const scope = requiredScope(req.method, req.baseUrl + req.path);
+  if (!scope) {
+    res.status(403).json({
+      error: "API keys can't be used for this endpoint",
+      code: "api_key_not_allowed",
+    });
+    return;
+  }
+
+  try {
+    const apiKey = await verifyApiKey(key);
+
+    if (!apiKey.scopes.includes(scope)) {
+      res.status(403).json({
+        error: `API key is missing the "${scope}" scope`,
+        code: "insufficient_scope",
+      });
+      return;
+    }
+
+    touchApiKey(apiKey.id).catch((error) => {
+      console.error("Failed to record API key use:", error);
+    });
+
+    req.user = apiKey.user;
+    req.apiKey = { id: apiKey.id, scopes: apiKey.scopes };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.status).json({ error: error.message, code: error.code });
+      return;
+    }
+    console.error("Auth Middleware Error:", error);
+    res.status(500).json({ error: "Authentication middleware failed" });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Authenticate with a Supabase access token (Authorization: Bearer) or an
+ * API key (Authorization: Bearer ysk_... or X-API-Key). Either way routes
+ * see the same req.user.
+ */
 export const authMiddleware = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   const authHeader = req.headers.authorization;
+  const apiKeyHeader = req.headers["x-api-key"];
+
+  if (typeof apiKeyHeader === "string" && apiKeyHeader) {
+    return authenticateApiKey(req, res, next, apiKeyHeader.trim());
+  }
 
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
     res.status(401).json({ error: "Missing or invalid Authorization header" });
@@ -41,84 +186,36 @@ export const authMiddleware = async (
 
   const token = authHeader.split(" ")[1];
 
+  if (isApiKey(token)) {
+    return authenticateApiKey(req, res, next, token);
+  }
+
+  let claims: VerifiedClaims;
   try {
-    // Validate with Supabase
-    const {
-      data: { user },
-      error,
-    } = await supabase.auth.getUser(token);
-
-    if (error || !user) {
-      console.error("Auth error:", error?.message || "Invalid token");
-      res.status(401).json({ error: "Invalid or expired token" });
+    claims = await verifyAccessToken(token);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      res.status(error.status).json({ error: error.message, code: error.code });
       return;
     }
+    console.error("Auth Middleware Error:", error);
+    res.status(500).json({ error: "Authentication middleware failed" });
+    return;
+  }
 
-    try {
-      // Check if user exists in local database
-      let dbUser = await prisma.user.findUnique({
-        where: { id: user.id },
-      });
-
-      // Create or update user in local DB
-      if (!dbUser) {
-        try {
-          // Create new user
-          dbUser = await prisma.user.create({
-            data: {
-              id: user.id,
-              email: user.email!,
-              name: user.user_metadata.full_name || "New User",
-              imageUrl: user.user_metadata.avatar_url || undefined,
-              provider: user.user_metadata.provider || "supabase",
-              credits: 10, // Initial free credits
-            },
-          });
-        } catch (createError) {
-          console.error("Failed to create user in database:", createError);
-          // Continue with Supabase user data
-        }
-      } else {
-        try {
-          // Update existing user
-          dbUser = await prisma.user.update({
-            where: { id: user.id },
-            data: {
-              email: user.email!,
-              name: user.user_metadata.full_name || dbUser.name,
-              imageUrl: user.user_metadata.avatar_url || dbUser.imageUrl,
-              provider: user.user_metadata.provider || dbUser.provider || "supabase",
-            },
-          });
-        } catch (updateError) {
-          console.error("Failed to update user in database:", updateError);
-          // Continue with existing dbUser data
-        }
-      }
+  try {
+    req.user = await syncUserProfile(claims);
+  } catch (dbError) {
+    console.error("Database error in auth middleware:", dbError);
 
-      req.user = {
-        id: user.id,
-        email: user.email!,
-        name: user.user_metadata.full_name || (dbUser?.name || ""),
-        image: user.user_metadata.avatar_url || (dbUser?.imageUrl || ""),
-      };
-
-      return next();
-    } catch (dbError) {
-      console.error("Database error in auth middleware:", dbError);
-
-      // In case of database error, still authenticate with Supabase data only
-      req.user = {
-        id: user.id,
-        email: user.email!,
-        name: user.user_metadata.full_name || "",
-        image: user.user_metadata.avatar_url || "",
-      };
-
-      return next();
-    }
-  } catch (err) {
-    console.error("Auth Middleware Error:", err);
-    res.status(500).json({ error: "Authentication middleware failed" });
+    // In case of database error, still authenticate with token data only
+    req.user = {
+      id: claims.id,
+      email: claims.email,
+      name: claims.name || "",
+      image: claims.imageUrl || "",
+    };
   }
-};
\ No newline at end of file
+
+  next();
+};
@@ -0,0 +1,60 @@
+// src/middleware/rateLimit.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "./authMiddleware";
+import { RateLimitGroup, rateLimitConfig } from "../config/rateLimit";
+import {
+  createMemoryStore,
+  createRedisStore,
+  RateLimitStore,
+} from "../services/rateLimitStore";
+
+// Shared by all route groups; keys are namespaced by group
+const defaultStore: RateLimitStore = rateLimitConfig.redisUrl
+  ? createRedisStore(rateLimitConfig.redisUrl)
+  : createMemoryStore();
+
+/**
+ * Limit requests per window for a route group. Requests are counted per
+ * user when authMiddleware has already run, otherwise per client IP.
+ * Responds 429 with Retry-After once the limit is reached; if the store is
+ * unavailable the request is let through.
+ * @param group Route group whose configured limit applies
+ * @param store Counter storage, the configured store by default
+ */
+export const rateLimit =
+  (group: RateLimitGroup, store: RateLimitStore = defaultStore) =>
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!rateLimitConfig.enabled) {
+      next();
+      return;
+    }
+
+    const rule = rateLimitConfig.groups[group];
+    const client = req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+
+    let hit;
+    try {
+      hit = await store.increment(`${group}:${client}`, rule.windowMs);
+    } catch (error) {
+      console.error("Rate limit store unavailable:", error);
+      next();
+      return;
+    }
+
+    const resetSeconds = Math.max(1, Math.ceil((hit.resetAt - Date.now()) / 1000));
+    res.setHeader("RateLimit-Limit", String(rule.max));
+    res.setHeader("RateLimit-Remaining", String(Math.max(0, rule.max - hit.count)));
+    res.setHeader("RateLimit-Reset", String(resetSeconds));
+
+    if (hit.count > rule.max) {
+      res.setHeader("Retry-After", String(resetSeconds));
+      res.status(429).json({
+        success: false,
+        error: `Too many requests. Try again in ${resetSeconds} seconds`,
+        code: "rate_limited",
+      });
+      return;
+    }
+
+    next();
+  };
@@ -0,0 +1,108 @@
+// src/routes/apiKeys.ts
+import { Router, Response } from "express";
+import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
+import {
+  createApiKey,
+  listApiKeys,
+  parseApiKeyRequest,
+  revokeApiKey,
+  serializeApiKey,
+} from "../services/apiKeys";
+import { HttpError } from "../utils/httpError";
+
+// Key management needs a signed-in session; API keys can't manage keys
+const router = Router();
+
+// List the user's API keys, including revoked and expired ones
+router.get(
+  "/",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const keys = await listApiKeys(req.user!.id);
+
+      res.json({
+        success: true,
+        data: { keys: keys.map(serializeApiKey) },
+      });
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch API keys",
+      });
+    }
+  }
+);
+
+// Create an API key; the full key is only returned in this response
+router.post(
+  "/",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { name, scopes, expiresAt, error } = parseApiKeyRequest(req.body);
+    if (error) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    try {
+      const { apiKey, key } = await createApiKey(req.user!.id, {
+        name: name!,
+        scopes: scopes!,
+        expiresAt: expiresAt ?? null,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { ...serializeApiKey(apiKey), key },
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error creating API key:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create API key",
+      });
+    }
+  }
+);
+
+// Revoke an API key
+router.delete(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const apiKey = await revokeApiKey(req.user!.id, req.params.id);
+
+      res.json({
+        success: true,
+        data: serializeApiKey(apiKey),
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error revoking API key:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to revoke API key",
+      });
+    }
+  }
+);
+
+export default router;
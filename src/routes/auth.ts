@@ -1,20 +1,31 @@
-import { Router } from "express";
+import { Request, Response, Router } from "express";
 import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
+import { rateLimit } from "../middleware/rateLimit";
 import prisma from "../config/prismaClient";
-import { createClient } from "@supabase/supabase-js";
+import { createSessionClient } from "../config/supabaseClient";
+import { listCreditTransactions } from "../services/credits";
+import {
+  EMAIL_VERIFICATION_TYPES,
+  refreshSession,
+  requestPasswordReset,
+  resendVerificationEmail,
+  resetPassword,
+  serializeSession,
+  signOut,
+  syncSessionUser,
+  verifyEmail,
+} from "../services/authSessions";
+import {
+  claimOAuthSession,
+  completeOAuthFlow,
+  parseOAuthStart,
+  startOAuthFlow,
+} from "../services/oauthSignIn";
+import { authRedirectConfig, oauthConfig } from "../config/auth";
+import { HttpError } from "../utils/httpError";
 
 const router = Router();
 
-// Create Supabase client
-const supabaseUrl = process.env.SUPABASE_URL || "";
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
-
-if (!supabaseUrl || !supabaseServiceKey) {
-  console.error("Missing Supabase configuration. Please check environment variables.");
-}
-
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
 // Get user profile
 router.get("/me", authMiddleware, async (req: AuthRequest, res) => {
   const userId = req.user!.id;
@@ -28,6 +39,7 @@ router.get("/me", authMiddleware, async (req: AuthRequest, res) => {
         email: true,
         credits: true,
         imageUrl: true,
+        emailVerified: true,
         createdAt: true,
       },
     });
@@ -57,8 +69,44 @@ router.get("/me", authMiddleware, async (req: AuthRequest, res) => {
   }
 });
 
+// Get the user's credit ledger, newest first
+router.get("/me/credits/history", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const [transactions, total] = await listCreditTransactions(req.user!.id, skip, limit);
+
+    res.json({
+      success: true,
+      data: {
+        transactions,
+        total,
+        page,
+        limit,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching credit history:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch credit history",
+    });
+  }
+});
+
+// Respond with an HttpError from the auth services, or a generic 500
+const sendAuthError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof HttpError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${context} error:`, error);
+  res.status(500).json({ error: "Server error" });
+};
+
 // Login user with Supabase - route changed to /signin for consistency
-router.post("/signin", async (req, res) => {
+router.post("/signin", rateLimit("auth"), async (req, res) => {
   try {
     const { email, password } = req.body;
 
@@ -67,76 +115,31 @@ router.post("/signin", async (req, res) => {
     }
 
     // Use Supabase authentication
-    const { data, error } = await supabase.auth.signInWithPassword({
+    const { data, error } = await createSessionClient().auth.signInWithPassword({
       email,
       password,
     });
 
     if (error) {
-      return res.status(401).json({ error: error.message });
+      return res.status(401).json({ error: error.message, code: error.code });
     }
 
     if (!data || !data.user || !data.session) {
       return res.status(401).json({ error: "Invalid credentials" });
     }
 
-    try {
-      // Get or create user in our database
-      let dbUser = await prisma.user.findUnique({
-        where: { id: data.user.id },
-      });
-
-      if (!dbUser) {
-        // Create new user
-        dbUser = await prisma.user.create({
-          data: {
-            id: data.user.id,
-            email: data.user.email!,
-            name: data.user.user_metadata.full_name || "New User",
-            imageUrl: data.user.user_metadata.avatar_url || undefined,
-            provider: "supabase",
-            credits: 5, // Initial free credits
-          },
-        });
-      }
-
-      // Return user info with Supabase token
-      res.json({
-        token: data.session.access_token,
-        expiresAt: Date.now() + 24 * 60 * 60 * 1000, // 24 hours
-        user: {
-          id: dbUser.id,
-          name: dbUser.name,
-          email: dbUser.email,
-          credits: dbUser.credits,
-          imageUrl: dbUser.imageUrl,
-          createdAt: dbUser.createdAt,
-        },
-      });
-    } catch (dbError) {
-      console.error("Database error during login:", dbError);
-
-      // Still return auth token even if database operations fail
-      res.json({
-        token: data.session.access_token,
-        expiresAt: Date.now() + 24 * 60 * 60 * 1000, // 24 hours
-        user: {
-          id: data.user.id,
-          name: data.user.user_metadata.full_name || "",
-          email: data.user.email!,
-          credits: 0,
-          imageUrl: data.user.user_metadata.avatar_url || "",
-        },
-      });
-    }
+    // Return user info with Supabase tokens
+    res.json({
+      ...serializeSession(data.session),
+      user: await syncSessionUser(data.user),
+    });
   } catch (error) {
-    console.error("Login error:", error);
-    res.status(500).json({ error: "Server error" });
+    sendAuthError(res, error, "Login");
   }
 });
 
 // Register user with Supabase - route changed to /signup for consistency
-router.post("/signup", async (req, res) => {
+router.post("/signup", rateLimit("auth"), async (req, res) => {
   try {
     const { name, email, password } = req.body;
 
@@ -147,69 +150,326 @@ router.post("/signup", async (req, res) => {
     }
 
     // Use Supabase to create a new user
-    const { data, error } = await supabase.auth.signUp({
+    const { data, error } = await createSessionClient().auth.signUp({
       email,
       password,
       options: {
         data: {
           full_name: name,
         },
+        emailRedirectTo: authRedirectConfig.emailVerification,
       },
     });
 
     if (error) {
-      return res.status(400).json({ error: error.message });
+      return res.status(400).json({ error: error.message, code: error.code });
     }
 
-    if (!data || !data.user || !data.session) {
+    if (!data || !data.user) {
       return res.status(400).json({ error: "Failed to create user" });
     }
 
-    try {
-      // Create user in our database
-      const dbUser = await prisma.user.create({
-        data: {
-          id: data.user.id,
-          name,
-          email,
-          provider: "supabase",
-          credits: 5, // Give new users 5 free credits
-        },
-      });
+    const user = await syncSessionUser(data.user, { name });
 
-      // Return user info with Supabase token
-      res.status(201).json({
-        token: data.session.access_token,
-        expiresAt: Date.now() + 24 * 60 * 60 * 1000, // 24 hours
-        user: {
-          id: dbUser.id,
-          name: dbUser.name,
-          email: dbUser.email,
-          credits: dbUser.credits,
-          imageUrl: dbUser.imageUrl,
-          createdAt: dbUser.createdAt,
-        },
+    // With email confirmation enabled there is no session until the user
+    // follows the link in the verification email
+    if (!data.session) {
+      return res.status(201).json({
+        token: null,
+        refreshToken: null,
+        expiresAt: null,
+        emailVerificationRequired: true,
+        user,
       });
-    } catch (dbError) {
-      console.error("Database error during signup:", dbError);
+    }
 
-      // Still return auth token even if database operations fail
-      res.status(201).json({
-        token: data.session.access_token,
-        expiresAt: Date.now() + 24 * 60 * 60 * 1000, // 24 hours
-        user: {
-          id: data.user.id,
-          name: name,
-          email: email,
-          credits: 5,
-          imageUrl: data.user.user_metadata.avatar_url || "",
-        },
-      });
+    // Return user info with Supabase tokens
+    res.status(201).json({
+      ...serializeSession(data.session),
+      emailVerificationRequired: false,
+      user,
+    });
+  } catch (error) {
+    sendAuthError(res, error, "Registration");
+  }
+});
+
+// Exchange a refresh token for a new access token and refresh token
+router.post("/refresh", rateLimit("session"), async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== "string") {
+      return res.status(400).json({ error: "refreshToken is required" });
     }
+
+    const { session, user } = await refreshSession(refreshToken);
+
+    res.json({
+      ...serializeSession(session),
+      user: await syncSessionUser(user),
+    });
   } catch (error) {
-    console.error("Registration error:", error);
-    res.status(500).json({ error: "Server error" });
+    sendAuthError(res, error, "Token refresh");
+  }
+});
+
+// End this session, or every session of the user with { scope: "global" }
+router.post("/signout", authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const scope = req.body?.scope ?? "local";
+
+    if (scope !== "local" && scope !== "global") {
+      return res.status(400).json({ error: 'scope must be "local" or "global"' });
+    }
+
+    await signOut(req.headers.authorization!.split(" ")[1], scope);
+
+    res.json({ success: true });
+  } catch (error) {
+    sendAuthError(res, error, "Sign-out");
+  }
+});
+
+// Email a password reset link; the same response whether or not the
+// account exists
+router.post("/password/forgot", rateLimit("auth"), async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== "string") {
+      return res.status(400).json({ error: "Email is required" });
+    }
+
+    await requestPasswordReset(email);
+
+    res.json({
+      success: true,
+      message: "If an account exists for that email, a reset link has been sent",
+    });
+  } catch (error) {
+    sendAuthError(res, error, "Password reset request");
+  }
+});
+
+// Set a new password with the token_hash from the reset email
+router.post("/password/reset", rateLimit("auth"), async (req, res) => {
+  try {
+    const { tokenHash, password } = req.body;
+
+    if (!tokenHash || typeof tokenHash !== "string" || !password || typeof password !== "string") {
+      return res.status(400).json({ error: "tokenHash and password are required" });
+    }
+
+    await resetPassword(tokenHash, password);
+
+    res.json({ success: true, message: "Password updated. Please sign in again." });
+  } catch (error) {
+    sendAuthError(res, error, "Password reset");
+  }
+});
+
+// Confirm an email address with the token_hash from the verification email
+router.post("/email/verify", rateLimit("auth"), async (req, res) => {
+  try {
+    const { tokenHash, type = "email" } = req.body;
+
+    if (!tokenHash || typeof tokenHash !== "string") {
+      return res.status(400).json({ error: "tokenHash is required" });
+    }
+    if (!EMAIL_VERIFICATION_TYPES.includes(type)) {
+      return res
+        .status(400)
+        .json({ error: `type must be one of: ${EMAIL_VERIFICATION_TYPES.join(", ")}` });
+    }
+
+    const { session, user } = await verifyEmail(tokenHash, type);
+
+    res.json({
+      ...(session ? serializeSession(session) : { token: null, refreshToken: null, expiresAt: null }),
+      user: await syncSessionUser(user),
+    });
+  } catch (error) {
+    sendAuthError(res, error, "Email verification");
+  }
+});
+
+// Send the verification email again
+router.post("/email/resend", rateLimit("auth"), async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== "string") {
+      return res.status(400).json({ error: "Email is required" });
+    }
+
+    await resendVerificationEmail(email);
+
+    res.json({
+      success: true,
+      message: "If a signup is pending for that email, a verification link has been sent",
+    });
+  } catch (error) {
+    sendAuthError(res, error, "Verification email");
+  }
+});
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Page left in the sign-in window when the extension collects the session
+// by polling, or when the callback can't redirect
+const sendOAuthPage = (res: Response, status: number, message: string) => {
+  res
+    .status(status)
+    .set("Cache-Control", "no-store")
+    .type("html")
+    .send(
+      `<!doctype html><html><head><meta charset="utf-8"><title>Sign in</title></head>` +
+        `<body><p>${escapeHtml(message)}</p></body></html>`
+    );
+};
+
+const oauthCallbackUrl = (req: Request): string =>
+  oauthConfig.callbackUrl || `${req.protocol}://${req.get("host")}/api/auth/oauth/callback`;
+
+// Cookie binding a polling flow to the browser that started it, scoped to
+// the callback path
+const flowCookie = (req: Request, flowId: string) => ({
+  name: `oauth_flow_${flowId}`,
+  options: {
+    httpOnly: true,
+    secure: req.secure,
+    sameSite: "lax" as const,
+    path: new URL(oauthCallbackUrl(req)).pathname,
+  },
+});
+
+const readCookie = (req: Request, name: string): string | undefined => {
+  for (const pair of (req.headers.cookie || "").split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim();
+    }
+  }
+  return undefined;
+};
+
+// Start signing in with an OAuth provider. With an allowed redirectTo the
+// browser is sent to the provider and comes back to redirectTo with a
+// one-time code; without one, the flow details are returned as JSON and the
+// extension polls with pollToken while the user signs in. A polling flow can
+// only be finished in the browser that made this request (it sets a flow
+// cookie), so the extension must call it with credentials included.
+router.get("/oauth/:provider/start", rateLimit("auth"), async (req, res) => {
+  try {
+    const { redirectTo, error } = parseOAuthStart(req.params.provider, req.query.redirectTo);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const flow = await startOAuthFlow(
+      req.params.provider,
+      redirectTo ?? null,
+      oauthCallbackUrl(req)
+    );
+
+    if (redirectTo) {
+      return res.redirect(302, flow.authorizeUrl);
+    }
+
+    const cookie = flowCookie(req, flow.flowId);
+    res.cookie(cookie.name, flow.browserKey, {
+      ...cookie.options,
+      maxAge: flow.expiresAt.getTime() - Date.now(),
+    });
+
+    res.json({
+      flowId: flow.flowId,
+      authorizeUrl: flow.authorizeUrl,
+      pollToken: flow.pollToken,
+      expiresAt: flow.expiresAt.getTime(),
+    });
+  } catch (error) {
+    sendAuthError(res, error, "OAuth start");
+  }
+});
+
+// Supabase redirects here after the provider sign-in with a PKCE code
+router.get("/oauth/callback", rateLimit("session"), async (req, res) => {
+  try {
+    const { flow, code, error, error_description } = req.query;
+
+    if (typeof flow !== "string" || !flow) {
+      return sendOAuthPage(res, 400, "Sign-in link is invalid or has expired.");
+    }
+
+    const cookie = flowCookie(req, flow);
+    const result = await completeOAuthFlow(
+      flow,
+      {
+        code: typeof code === "string" ? code : undefined,
+        error: typeof error === "string" ? error : undefined,
+        errorDescription: typeof error_description === "string" ? error_description : undefined,
+      },
+      readCookie(req, cookie.name)
+    );
+    res.clearCookie(cookie.name, cookie.options);
+
+    if (result.redirectUrl) {
+      return res.redirect(302, result.redirectUrl);
+    }
+    if (result.error) {
+      return sendOAuthPage(res, 400, `Sign-in failed: ${result.error}`);
+    }
+    sendOAuthPage(res, 200, "You're signed in. You can close this window.");
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return sendOAuthPage(res, error.status, error.message);
+    }
+    console.error("OAuth callback error:", error);
+    sendOAuthPage(res, 500, "Sign-in failed. Please try again.");
+  }
+});
+
+// Trade the one-time code from the OAuth redirect for the session
+router.post("/oauth/token", rateLimit("session"), async (req, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code || typeof code !== "string") {
+      return res.status(400).json({ error: "code is required" });
+    }
+
+    const claim = await claimOAuthSession({ handoffCode: code });
+    if (claim.status !== "completed") {
+      return res.status(409).json({ error: "Sign-in is not finished", code: "oauth_pending" });
+    }
+
+    res.json(claim.session);
+  } catch (error) {
+    sendAuthError(res, error, "OAuth token");
+  }
+});
+
+// Check on a polling OAuth sign-in; 202 until the user finishes signing in
+router.post("/oauth/poll", rateLimit("public"), async (req, res) => {
+  try {
+    const { pollToken } = req.body;
+
+    if (!pollToken || typeof pollToken !== "string") {
+      return res.status(400).json({ error: "pollToken is required" });
+    }
+
+    const claim = await claimOAuthSession({ pollToken });
+    if (claim.status !== "completed") {
+      return res.status(202).json({ status: "pending" });
+    }
+
+    res.json({ status: "completed", ...claim.session });
+  } catch (error) {
+    sendAuthError(res, error, "OAuth poll");
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
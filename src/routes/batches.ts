@@ -0,0 +1,113 @@
+// src/routes/batches.ts
+import { Router, Response } from "express";
+import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
+import { rateLimit } from "../middleware/rateLimit";
+import {
+  createSummaryBatch,
+  findSummaryBatch,
+  listSummaryBatches,
+  parseBatchRequest,
+  serializeBatch,
+} from "../services/summaryBatches";
+import { HttpError } from "../utils/httpError";
+
+const router = Router();
+
+// Queue many videos (e.g. a playlist) for summarization, with an optional
+// digest across all of them; credits for the whole batch are reserved now
+router.post(
+  "/",
+  authMiddleware,
+  rateLimit("generate"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { batch, error, status, code } = parseBatchRequest(req.body);
+    if (!batch) {
+      res.status(status || 400).json({ success: false, error, code });
+      return;
+    }
+
+    try {
+      const created = await createSummaryBatch(req.user!.id, batch);
+
+      res.status(202).json({
+        success: true,
+        data: serializeBatch(created),
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error creating summary batch:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create summary batch",
+      });
+    }
+  }
+);
+
+// List the user's batches, newest first
+router.get(
+  "/",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+
+      const [batches, total] = await listSummaryBatches(
+        req.user!.id,
+        (page - 1) * limit,
+        limit
+      );
+
+      res.json({
+        success: true,
+        data: { batches: batches.map(serializeBatch), total, page, limit },
+      });
+    } catch (error) {
+      console.error("Error fetching summary batches:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch summary batches",
+      });
+    }
+  }
+);
+
+// Poll a batch's progress, per item
+router.get(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const batch = await findSummaryBatch(req.user!.id, req.params.id);
+
+      if (!batch) {
+        res.status(404).json({
+          success: false,
+          error: "Batch not found",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: serializeBatch(batch),
+      });
+    } catch (error) {
+      console.error("Error fetching summary batch:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch summary batch",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,158 @@
+// src/routes/folders.ts
+import { Router, Response } from "express";
+import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
+import prisma from "../config/prismaClient";
+import {
+  isUniqueViolation,
+  parseFolderName,
+  serializeFolder,
+} from "../services/libraryOrganization";
+
+const router = Router();
+
+// List the user's folders with how many summaries each holds
+router.get(
+  "/",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const folders = await prisma.folder.findMany({
+        where: { userId: req.user!.id },
+        orderBy: { name: "asc" },
+        include: { _count: { select: { summaries: true } } },
+      });
+
+      res.json({
+        success: true,
+        data: { folders: folders.map(serializeFolder) },
+      });
+    } catch (error) {
+      console.error("Error fetching folders:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch folders",
+      });
+    }
+  }
+);
+
+// Create a folder
+router.post(
+  "/",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { name, error } = parseFolderName(req.body?.name);
+    if (!name) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    try {
+      const folder = await prisma.folder.create({
+        data: { userId: req.user!.id, name },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: serializeFolder(folder),
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        res.status(409).json({
+          success: false,
+          error: "A folder with this name already exists",
+          code: "folder_exists",
+        });
+        return;
+      }
+      console.error("Error creating folder:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create folder",
+      });
+    }
+  }
+);
+
+// Rename a folder
+router.patch(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { name, error } = parseFolderName(req.body?.name);
+    if (!name) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    try {
+      const { count } = await prisma.folder.updateMany({
+        where: { id: req.params.id, userId: req.user!.id },
+        data: { name },
+      });
+
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          error: "Folder not found",
+        });
+        return;
+      }
+
+      const folder = await prisma.folder.findUniqueOrThrow({
+        where: { id: req.params.id },
+        include: { _count: { select: { summaries: true } } },
+      });
+
+      res.json({
+        success: true,
+        data: serializeFolder(folder),
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        res.status(409).json({
+          success: false,
+          error: "A folder with this name already exists",
+          code: "folder_exists",
+        });
+        return;
+      }
+      console.error("Error renaming folder:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to rename folder",
+      });
+    }
+  }
+);
+
+// Delete a folder; its summaries stay in the library without a folder
+router.delete(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { count } = await prisma.folder.deleteMany({
+        where: { id: req.params.id, userId: req.user!.id },
+      });
+
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          error: "Folder not found",
+        });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting folder:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete folder",
+      });
+    }
+  }
+);
+
+export default router;
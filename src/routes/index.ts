@@ -1,9 +1,23 @@
 import { Router } from "express";
 import authRoutes from "./auth";
+import apiKeyRoutes from "./apiKeys";
 import summaryRoutes from "./summary";
+import jobRoutes from "./jobs";
+import batchRoutes from "./batches";
+import templateRoutes from "./templates";
+import folderRoutes from "./folders";
+import tagRoutes from "./tags";
+import publicRoutes from "./public";
 const router = Router();
 
+router.use("/auth/api-keys", apiKeyRoutes);
 router.use("/auth", authRoutes);
+router.use("/summary/jobs", jobRoutes);
+router.use("/summary/batches", batchRoutes);
+router.use("/summary/templates", templateRoutes);
+router.use("/summary/folders", folderRoutes);
+router.use("/summary/tags", tagRoutes);
 router.use("/summary", summaryRoutes);
+router.use("/public", publicRoutes);
 
 export default router;
@@ -0,0 +1,69 @@
+// src/routes/jobs.ts
+import { Router, Response } from "express";
+import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
+import { rateLimit } from "../middleware/rateLimit";
+import { parseSummaryRequest } from "../services/summaryPipeline";
+import { enqueueSummaryJob, findSummaryJob, serializeJob } from "../services/summaryJobs";
+
+const router = Router();
+
+// Queue a summary for background generation
+router.post(
+  "/",
+  authMiddleware,
+  rateLimit("generate"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { error, status, code } = parseSummaryRequest(req.body);
+    if (error) {
+      res.status(status || 400).json({ success: false, error, code });
+      return;
+    }
+
+    try {
+      const job = await enqueueSummaryJob(req.user!.id, req.body);
+
+      res.status(202).json({
+        success: true,
+        data: serializeJob(job),
+      });
+    } catch (error) {
+      console.error("Error creating summary job:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create summary job",
+      });
+    }
+  }
+);
+
+// Poll the status of a summary job
+router.get(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const job = await findSummaryJob(req.user!.id, req.params.id);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: "Job not found",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: serializeJob(job),
+      });
+    } catch (error) {
+      console.error("Error fetching summary job:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch summary job",
+      });
+    }
+  }
+);
+
+export default router;
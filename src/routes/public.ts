@@ -0,0 +1,41 @@
+// src/routes/public.ts
+import { Router, Response, Request } from "express";
+import { rateLimit } from "../middleware/rateLimit";
+import { serializePublicSummary, viewSharedSummary } from "../services/summaryShares";
+import { HttpError } from "../utils/httpError";
+
+// Routes that don't require authentication
+const router = Router();
+
+// Read-only view of a summary shared by link
+router.get(
+  "/summaries/:token",
+  rateLimit("public"),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const summary = await viewSharedSummary(req.params.token);
+
+      res.setHeader("Cache-Control", "no-store");
+      res.json({
+        success: true,
+        data: serializePublicSummary(summary),
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error fetching shared summary:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch shared summary",
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,218 +1,303 @@
 // src/routes/summary.ts
 import { Router, Response, Request } from "express";
 import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
+import { rateLimit } from "../middleware/rateLimit";
 import prisma from "../config/prismaClient";
-import { generateSummary } from "../services/generateSummary";
+import { parseSummaryRequest, runSummaryPipeline } from "../services/summaryPipeline";
+import { createSummaryStreamParser } from "../services/summaryStreamParser";
+import { askAboutVideo, listChatMessages, parseChatRequest } from "../services/videoChat";
+import {
+  indexSummaryEmbedding,
+  parseSearchQuery,
+  searchLibrary,
+} from "../services/librarySearch";
+import {
+  bulkMoveSummaries,
+  bulkTagSummaries,
+  libraryFiltersWhere,
+  parseBulkTagChange,
+  parseKeyPoints,
+  parseLibraryFilters,
+  parseSummaryIds,
+  parseSummaryPatch,
+  summaryTagsInclude,
+  updateSummary,
+} from "../services/libraryOrganization";
+import {
+  ExportFile,
+  exportSummaries,
+  exportSummary,
+  parseExportFormat,
+} from "../services/summaryExport";
+import {
+  createShare,
+  listShares,
+  parseShareRequest,
+  revokeShare,
+  serializeShare,
+} from "../services/summaryShares";
+import {
+  compareSummaries,
+  comparisonSourcesInclude,
+  parseCompareRequest,
+} from "../services/compareSummaries";
+import { parseCaptionsInput } from "../services/captionIngestion";
+import { serializeSummary } from "../utils/serializeSummary";
+import { HttpError } from "../utils/httpError";
+import { canonicalVideoUrl, extractVideoId } from "../utils/youtube";
 
 const router = Router();
 
+const requestOrigin = (req: AuthRequest): string => `${req.protocol}://${req.get("host")}`;
+
+const sendExport = (res: Response, file: ExportFile): void => {
+  res.setHeader("Content-Type", file.contentType);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${file.filename}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`
+  );
+  res.send(file.body);
+};
+
 // Generate or retrieve summary
-router.post("/generate", authMiddleware, async (req: AuthRequest, res) => {
+router.post("/generate", authMiddleware, rateLimit("generate"), async (req: AuthRequest, res) => {
   try {
-    const userId = req.user!.id;
-    const { content, metadata } = req.body;
-
-    if (!content) {
-      return res.status(400).json({ error: "Content (transcript) is required" });
+    const { request, error, status, code } = parseSummaryRequest(req.body);
+    if (!request) {
+      return res.status(status || 400).json({ success: false, error, code });
     }
 
-    if (!metadata || !metadata.videoId) {
-      return res.status(400).json({ error: "Video metadata with videoId is required" });
+    const result = await runSummaryPipeline(req.user!.id, request);
+
+    return res.json({
+      success: true,
+      data: result.data,
+      ...(result.creditsRemaining !== undefined && {
+        creditsRemaining: result.creditsRemaining,
+      }),
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      if (error.status >= 500) console.error("Error generating summary:", error);
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
     }
 
-    const videoUrl = metadata.url || `https://www.youtube.com/watch?v=${metadata.videoId}`;
+    console.error("Error generating summary:", error);
+    res.status(500).json({ 
+      success: false,
+      error: "Failed to generate summary",
+      code: "internal_error",
+    });
+  }
+});
 
-    // Check for existing summary
-    let existingSummary;
-    try {
-      existingSummary = await prisma.summary.findFirst({
-        where: {
-          videoUrl,
-        },
-      });
+// Generate a summary, streaming key points and summary text as Server-Sent Events
+router.post("/generate/stream", authMiddleware, rateLimit("generate"), async (req: AuthRequest, res) => {
+  const { request, error, status, code } = parseSummaryRequest(req.body);
+  if (!request) {
+    return res.status(status || 400).json({ success: false, error, code });
+  }
 
-      if (existingSummary) {
-        // Parse the stored summary into the expected format
-        let keyPoints: string[] = [];
-        let fullSummary = existingSummary.summary;
-        let title = metadata.title || "Video Summary";
-
-        // Try to extract key points and full summary from stored format
-        const storedSummary = existingSummary.summary;
-        const keyPointsMatch = storedSummary.match(/Key Points:([\s\S]*?)(?=\n\n|$)/i);
-        
-        if (keyPointsMatch) {
-          keyPoints = keyPointsMatch[1]
-            .split('-')
-            .map(point => point.trim())
-            .filter(point => point.length > 0);
-            
-          // Get the full summary part
-          const fullSummaryMatch = storedSummary.match(/(?:Key Points:[\s\S]*?\n\n)([\s\S]*?)$/);
-          if (fullSummaryMatch) {
-            fullSummary = fullSummaryMatch[1].trim();
-          }
-          
-          // Extract title if available from beginning of the summary
-          const titleMatch = storedSummary.match(/^(.*?)\n/);
-          if (titleMatch) {
-            title = titleMatch[1].trim();
-          }
-        }
-
-        return res.json({
-          success: true,
-          data: {
-            title,
-            keyPoints,
-            fullSummary
-          }
-        });
-      }
-    } catch (dbError) {
-      console.error("Database error checking for existing summary:", dbError);
-      // Continue with summary generation even if DB lookup fails
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Nothing is saved or charged if the client disconnects mid-stream
+  const abort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  const parser = createSummaryStreamParser({
+    onKeyPoint: (keyPoint) => send("keyPoint", keyPoint),
+    onSummaryDelta: (delta) => send("summary", { delta }),
+  });
+
+  try {
+    const result = await runSummaryPipeline(req.user!.id, request, {
+      onDelta: (delta) => parser.push(delta),
+      signal: abort.signal,
+    });
+    parser.end();
+
+    send("done", {
+      id: result.data.id,
+      summary: result.data,
+      cached: result.cached,
+      ...(result.creditsRemaining !== undefined && {
+        creditsRemaining: result.creditsRemaining,
+      }),
+    });
+  } catch (error) {
+    if (!abort.signal.aborted) {
+      console.error("Error streaming summary:", error);
+      send("error", {
+        error: error instanceof HttpError ? error.message : "Failed to generate summary",
+        status: error instanceof HttpError ? error.status : 500,
+        code: error instanceof HttpError ? error.code : "internal_error",
+      });
     }
+  } finally {
+    res.end();
+  }
+});
 
-    // Check user credits
-    let userCredits = 0;
+// List the follow-up conversation about a summary
+router.get(
+  "/:id/chat",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { credits: true },
-      });
+      const messages = await listChatMessages(req.user!.id, req.params.id);
 
-      if (!user) {
-        return res.status(404).json({ 
+      res.json({
+        success: true,
+        data: { messages },
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
           success: false,
-          error: "User not found" 
+          error: error.message,
+          code: error.code,
         });
+        return;
       }
+      console.error("Error fetching chat messages:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch chat messages",
+      });
+    }
+  }
+);
 
-      userCredits = user.credits;
+// Ask a follow-up question about a summary, streaming the answer as
+// Server-Sent Events
+router.post("/:id/chat", authMiddleware, rateLimit("chat"), async (req: AuthRequest, res) => {
+  const { request, error } = parseChatRequest(req.body);
+  if (!request) {
+    return res.status(400).json({ success: false, error });
+  }
 
-      if (userCredits < 1) {
-        return res.status(403).json({ 
-          success: false,
-          error: "Insufficient credits" 
-        });
-      }
-    } catch (dbError) {
-      console.error("Database error checking user credits:", dbError);
-      // For now, we'll allow the operation to continue even if credit check fails
-    }
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
 
-    // Generate summary
-    const summary = await generateSummary(content, metadata);
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
 
-    if (!summary.fullSummary) {
-      return res.status(500).json({ 
-        success: false,
-        error: "Failed to generate summary" 
+  // Nothing is saved or charged if the client disconnects mid-answer
+  const abort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  try {
+    const result = await askAboutVideo(req.user!.id, req.params.id, request, {
+      onDelta: (delta) => send("answer", { delta }),
+      signal: abort.signal,
+    });
+
+    send("done", result);
+  } catch (error) {
+    if (!abort.signal.aborted) {
+      console.error("Error answering chat question:", error);
+      send("error", {
+        error: error instanceof HttpError ? error.message : "Failed to answer question",
+        status: error instanceof HttpError ? error.status : 500,
+        code: error instanceof HttpError ? error.code : "internal_error",
       });
     }
+  } finally {
+    res.end();
+  }
+});
 
-    // Format summary for storage
-    const summaryText = `${summary.title}\n\nKey Points:\n${summary.keyPoints
-      .map((point) => `- ${point}`)
-      .join("\n")}\n\n${summary.fullSummary}`;
+// Search the user's library by full text or meaning
+router.get(
+  "/search",
+  authMiddleware,
+  rateLimit("search"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { search, error } = parseSearchQuery(req.query);
+    if (!search) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
 
-    // Save summary to database and update user credits
     try {
-      await prisma.$transaction([
-        prisma.summary.create({
-          data: {
-            userId,
-            videoUrl,
-            summary: summaryText,
-            transcript: content,
-          },
-        }),
-        prisma.user.update({
-          where: { id: userId },
-          data: {
-            credits: { decrement: 1 },
-          },
-        }),
-      ]);
-    } catch (dbError) {
-      console.error("Database error saving summary:", dbError);
-      // Continue and return the summary even if saving fails
-    }
+      const results = await searchLibrary(req.user!.id, search);
 
-    return res.json({
-      success: true,
-      data: summary,
-      creditsRemaining: Math.max(0, userCredits - 1),
-    });
-  } catch (error) {
-    console.error("Error generating summary:", error);
-    res.status(500).json({ 
-      success: false,
-      error: "Failed to generate summary" 
-    });
+      res.json({
+        success: true,
+        data: results,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error searching summaries:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to search summaries",
+      });
+    }
   }
-});
+);
 
 // Get all summaries for a user
 router.get("/", authMiddleware, async (req: AuthRequest, res) => {
+  const { filters, error } = parseLibraryFilters(req.query);
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
   try {
     const userId = req.user!.id;
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const skip = (page - 1) * limit;
+    const where = { userId, ...libraryFiltersWhere(filters) };
 
     const [summaries, total] = await Promise.all([
       prisma.summary.findMany({
-        where: { userId },
+        where,
         orderBy: { createdAt: "desc" },
         skip,
         take: limit,
+        omit: { embedding: true },
+        include: summaryTagsInclude,
       }),
       prisma.summary.count({
-        where: { userId },
+        where,
       }),
     ]);
 
-    // Format summaries for the frontend
-    const formattedSummaries = summaries.map(summary => {
-      // Try to extract title, key points, and full summary from the stored format
-      let title = "";
-      let keyPoints: string[] = [];
-      let fullSummary = summary.summary;
-
-      const titleMatch = summary.summary.match(/^(.*?)\n/);
-      if (titleMatch) {
-        title = titleMatch[1].trim();
-      }
-
-      const keyPointsMatch = summary.summary.match(/Key Points:([\s\S]*?)(?=\n\n|$)/i);
-      if (keyPointsMatch) {
-        keyPoints = keyPointsMatch[1]
-          .split('-')
-          .map(point => point.trim())
-          .filter(point => point.length > 0);
-          
-        const fullSummaryMatch = summary.summary.match(/(?:Key Points:[\s\S]*?\n\n)([\s\S]*?)$/);
-        if (fullSummaryMatch) {
-          fullSummary = fullSummaryMatch[1].trim();
-        }
-      }
-
-      return {
-        id: summary.id,
-        title,
-        keyPoints,
-        fullSummary,
-        sourceUrl: summary.videoUrl,
-        createdAt: summary.createdAt,
-      };
-    });
-
     res.json({ 
       success: true,
       data: {
-        summaries: formattedSummaries,
+        summaries: summaries.map(serializeSummary),
         total,
         page,
         limit
@@ -248,23 +333,31 @@ router.post(
       return;
     }
 
+    const { keyPoints: parsedKeyPoints, error } =
+      keyPoints === undefined ? { keyPoints: [] } : parseKeyPoints(keyPoints);
+    if (!parsedKeyPoints) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
     try {
-      const videoUrl = sourceUrl || `https://www.youtube.com/watch?v=${videoId}`;
-      
-      // Format the summary for storage
-      const summaryText = `${title}\n\nKey Points:\n${keyPoints
-        .map((point: string) => `- ${point}`)
-        .join("\n")}\n\n${fullSummary}`;
+      const canonicalId = extractVideoId(videoId) || extractVideoId(sourceUrl);
+      const videoUrl = canonicalId ? canonicalVideoUrl(canonicalId) : sourceUrl;
 
       const newSummary = await prisma.summary.create({
         data: {
           userId: req.user!.id,
-          videoUrl,
-          summary: summaryText,
+          videoId: canonicalId || videoId,
+          videoUrl: videoUrl || `https://www.youtube.com/watch?v=${videoId}`,
+          title,
+          keyPoints: parsedKeyPoints,
+          fullSummary,
           transcript: "", // Empty or placeholder
         },
       });
 
+      await indexSummaryEmbedding(newSummary);
+
       res.json({
         success: true,
         data: { id: newSummary.id }
@@ -279,6 +372,301 @@ router.post(
   }
 );
 
+// Add and remove tags on several summaries at once
+router.post(
+  "/bulk/tags",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { ids, error: idsError } = parseSummaryIds(req.body?.summaryIds);
+    const { add, remove, error } = parseBulkTagChange(req.body);
+    if (!ids || idsError || error) {
+      res.status(400).json({ success: false, error: idsError || error });
+      return;
+    }
+
+    try {
+      const updated = await bulkTagSummaries(req.user!.id, ids, add!, remove!);
+
+      res.json({
+        success: true,
+        data: { updated },
+      });
+    } catch (error) {
+      console.error("Error tagging summaries:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to tag summaries",
+      });
+    }
+  }
+);
+
+// Move several summaries into a folder, or out of any folder with folderId null
+router.post(
+  "/bulk/move",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { ids, error } = parseSummaryIds(req.body?.summaryIds);
+    const folderId = req.body?.folderId;
+    if (!ids) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+    if (folderId !== null && (typeof folderId !== "string" || !folderId)) {
+      res.status(400).json({ success: false, error: "folderId must be a folder id or null" });
+      return;
+    }
+
+    try {
+      const moved = await bulkMoveSummaries(req.user!.id, ids, folderId);
+
+      res.json({
+        success: true,
+        data: { moved },
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error moving summaries:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to move summaries",
+      });
+    }
+  }
+);
+
+// Normalize an uploaded caption file (WebVTT, SRT, timedtext XML or JSON3)
+// into transcript text and timed segments without summarizing it
+router.post(
+  "/captions/parse",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { transcript, error, status, code } = parseCaptionsInput(req.body?.captions);
+    if (!transcript) {
+      res.status(status || 400).json({ success: false, error, code });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: transcript,
+    });
+  }
+);
+
+// Compare several summaries: common themes, contradictions and points unique
+// to each video, saved as a new library entry linked to its sources
+router.post(
+  "/compare",
+  authMiddleware,
+  rateLimit("generate"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { request, error } = parseCompareRequest(req.body);
+    if (!request) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    try {
+      const { summary, creditsRemaining } = await compareSummaries(req.user!.id, request);
+
+      res.status(201).json({
+        success: true,
+        data: summary,
+        creditsRemaining,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.status >= 500) console.error("Error comparing summaries:", error);
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error comparing summaries:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to compare summaries",
+        code: "internal_error",
+      });
+    }
+  }
+);
+
+// Export several summaries as a zip archive with one file per summary
+router.post(
+  "/export",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { ids, error: idsError } = parseSummaryIds(req.body?.summaryIds);
+    const { format, error } = parseExportFormat(req.body?.format);
+    if (!ids || !format) {
+      res.status(400).json({ success: false, error: idsError || error });
+      return;
+    }
+
+    try {
+      sendExport(res, await exportSummaries(req.user!.id, ids, format));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error exporting summaries:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to export summaries",
+      });
+    }
+  }
+);
+
+// Download a summary as Markdown, plain text, PDF, JSON or an Anki deck
+router.get(
+  "/:id/export",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { format, error } = parseExportFormat(req.query.format);
+    if (!format) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    try {
+      const summary = await prisma.summary.findFirst({
+        where: { id: req.params.id, userId: req.user!.id },
+        omit: { embedding: true },
+        include: summaryTagsInclude,
+      });
+
+      if (!summary) {
+        res.status(404).json({
+          success: false,
+          error: "Summary not found",
+        });
+        return;
+      }
+
+      sendExport(res, exportSummary(serializeSummary(summary), format));
+    } catch (error) {
+      console.error("Error exporting summary:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to export summary",
+      });
+    }
+  }
+);
+
+// Create a public read-only link to a summary
+router.post(
+  "/:id/share",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { expiresAt, error } = parseShareRequest(req.body);
+    if (expiresAt === undefined) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    try {
+      const share = await createShare(req.user!.id, req.params.id, expiresAt);
+
+      res.status(201).json({
+        success: true,
+        data: serializeShare(share, requestOrigin(req)),
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error creating share link:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create share link",
+      });
+    }
+  }
+);
+
+// List a summary's share links with their view counts
+router.get(
+  "/:id/shares",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const shares = await listShares(req.user!.id, req.params.id);
+
+      res.json({
+        success: true,
+        data: { shares: shares.map((share) => serializeShare(share, requestOrigin(req))) },
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error fetching share links:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch share links",
+      });
+    }
+  }
+);
+
+// Revoke a share link
+router.delete(
+  "/:id/shares/:shareId",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const share = await revokeShare(req.user!.id, req.params.id, req.params.shareId);
+
+      res.json({
+        success: true,
+        data: serializeShare(share, requestOrigin(req)),
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error revoking share link:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to revoke share link",
+      });
+    }
+  }
+);
+
 // Get single summary route - protected by auth
 router.get(
   "/:id",
@@ -292,6 +680,12 @@ router.get(
           id,
           userId: req.user!.id,
         },
+        omit: { embedding: true },
+        include: {
+          segments: { orderBy: { position: "asc" } },
+          ...summaryTagsInclude,
+          ...comparisonSourcesInclude,
+        },
       });
 
       if (!summary) {
@@ -302,39 +696,9 @@ router.get(
         return;
       }
 
-      // Format the summary for the frontend
-      let title = "";
-      let keyPoints: string[] = [];
-      let fullSummary = summary.summary;
-
-      const titleMatch = summary.summary.match(/^(.*?)\n/);
-      if (titleMatch) {
-        title = titleMatch[1].trim();
-      }
-
-      const keyPointsMatch = summary.summary.match(/Key Points:([\s\S]*?)(?=\n\n|$)/i);
-      if (keyPointsMatch) {
-        keyPoints = keyPointsMatch[1]
-          .split('-')
-          .map(point => point.trim())
-          .filter(point => point.length > 0);
-          
-        const fullSummaryMatch = summary.summary.match(/(?:Key Points:[\s\S]*?\n\n)([\s\S]*?)$/);
-        if (fullSummaryMatch) {
-          fullSummary = fullSummaryMatch[1].trim();
-        }
-      }
-
       res.json({
         success: true,
-        data: {
-          id: summary.id,
-          title,
-          keyPoints,
-          fullSummary,
-          sourceUrl: summary.videoUrl,
-          createdAt: summary.createdAt,
-        }
+        data: serializeSummary(summary),
       });
     } catch (error) {
       console.error("Error fetching summary:", error);
@@ -346,6 +710,44 @@ router.get(
   }
 );
 
+// Edit a summary's text or organize it: title, key points, full summary,
+// favorite flag, folder and tags
+router.patch(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { patch, error } = parseSummaryPatch(req.body);
+    if (!patch) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    try {
+      const updated = await updateSummary(req.user!.id, req.params.id, patch);
+      await indexSummaryEmbedding(updated);
+
+      res.json({
+        success: true,
+        data: serializeSummary(updated),
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      console.error("Error updating summary:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update summary",
+      });
+    }
+  }
+);
+
 // Delete summary route - protected by auth
 router.delete(
   "/:id",
@@ -0,0 +1,161 @@
+// src/routes/tags.ts
+import { Router, Response } from "express";
+import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
+import prisma from "../config/prismaClient";
+import {
+  isUniqueViolation,
+  MAX_TAG_LENGTH,
+  normalizeTagName,
+  serializeTag,
+} from "../services/libraryOrganization";
+
+const router = Router();
+
+const INVALID_NAME = `name must be a tag name of 1-${MAX_TAG_LENGTH} characters`;
+
+// List the user's tags with how many summaries carry each
+router.get(
+  "/",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const tags = await prisma.tag.findMany({
+        where: { userId: req.user!.id },
+        orderBy: { name: "asc" },
+        include: { _count: { select: { summaries: true } } },
+      });
+
+      res.json({
+        success: true,
+        data: { tags: tags.map(serializeTag) },
+      });
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch tags",
+      });
+    }
+  }
+);
+
+// Create a tag ahead of using it; tags are also created when first applied
+router.post(
+  "/",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const name = normalizeTagName(req.body?.name);
+    if (!name) {
+      res.status(400).json({ success: false, error: INVALID_NAME });
+      return;
+    }
+
+    try {
+      const tag = await prisma.tag.create({
+        data: { userId: req.user!.id, name },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: serializeTag(tag),
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        res.status(409).json({
+          success: false,
+          error: "A tag with this name already exists",
+          code: "tag_exists",
+        });
+        return;
+      }
+      console.error("Error creating tag:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create tag",
+      });
+    }
+  }
+);
+
+// Rename a tag on every summary that carries it
+router.patch(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const name = normalizeTagName(req.body?.name);
+    if (!name) {
+      res.status(400).json({ success: false, error: INVALID_NAME });
+      return;
+    }
+
+    try {
+      const { count } = await prisma.tag.updateMany({
+        where: { id: req.params.id, userId: req.user!.id },
+        data: { name },
+      });
+
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          error: "Tag not found",
+        });
+        return;
+      }
+
+      const tag = await prisma.tag.findUniqueOrThrow({
+        where: { id: req.params.id },
+        include: { _count: { select: { summaries: true } } },
+      });
+
+      res.json({
+        success: true,
+        data: serializeTag(tag),
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        res.status(409).json({
+          success: false,
+          error: "A tag with this name already exists",
+          code: "tag_exists",
+        });
+        return;
+      }
+      console.error("Error renaming tag:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to rename tag",
+      });
+    }
+  }
+);
+
+// Delete a tag and remove it from all summaries
+router.delete(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { count } = await prisma.tag.deleteMany({
+        where: { id: req.params.id, userId: req.user!.id },
+      });
+
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          error: "Tag not found",
+        });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete tag",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,177 @@
+// src/routes/templates.ts
+import { Router, Response } from "express";
+import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
+import prisma from "../config/prismaClient";
+import {
+  findTemplate,
+  parseTemplateInput,
+  serializeTemplate,
+} from "../services/promptTemplates";
+
+const router = Router();
+
+// List the user's prompt templates
+router.get(
+  "/",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const templates = await prisma.promptTemplate.findMany({
+        where: { userId: req.user!.id },
+        orderBy: { createdAt: "desc" },
+      });
+
+      res.json({
+        success: true,
+        data: { templates: templates.map(serializeTemplate) },
+      });
+    } catch (error) {
+      console.error("Error fetching prompt templates:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch prompt templates",
+      });
+    }
+  }
+);
+
+// Create a prompt template
+router.post(
+  "/",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { input, error } = parseTemplateInput(req.body);
+    if (!input) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    try {
+      const template = await prisma.promptTemplate.create({
+        data: {
+          userId: req.user!.id,
+          name: input.name!,
+          body: input.body!,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: serializeTemplate(template),
+      });
+    } catch (error) {
+      console.error("Error creating prompt template:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create prompt template",
+      });
+    }
+  }
+);
+
+// Get a single prompt template
+router.get(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const template = await findTemplate(req.user!.id, req.params.id);
+
+      if (!template) {
+        res.status(404).json({
+          success: false,
+          error: "Prompt template not found",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: serializeTemplate(template),
+      });
+    } catch (error) {
+      console.error("Error fetching prompt template:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch prompt template",
+      });
+    }
+  }
+);
+
+// Rename a template or change its body; body changes bump the version so
+// summaries and cache entries from the old body stay distinguishable
+router.patch(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { input, error } = parseTemplateInput(req.body, true);
+    if (!input) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    try {
+      const existing = await findTemplate(req.user!.id, req.params.id);
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: "Prompt template not found",
+        });
+        return;
+      }
+
+      const bodyChanged = input.body !== undefined && input.body !== existing.body;
+      const template = await prisma.promptTemplate.update({
+        where: { id: existing.id },
+        data: {
+          ...input,
+          ...(bodyChanged && { version: { increment: 1 } }),
+        },
+      });
+
+      res.json({
+        success: true,
+        data: serializeTemplate(template),
+      });
+    } catch (error) {
+      console.error("Error updating prompt template:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update prompt template",
+      });
+    }
+  }
+);
+
+// Delete a prompt template; summaries keep the template id and version
+router.delete(
+  "/:id",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { count } = await prisma.promptTemplate.deleteMany({
+        where: { id: req.params.id, userId: req.user!.id },
+      });
+
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          error: "Prompt template not found",
+        });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting prompt template:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete prompt template",
+      });
+    }
+  }
+);
+
+export default router;
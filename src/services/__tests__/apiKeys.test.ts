@@ -0,0 +1,39 @@
+import { requiredScope } from "../apiKeys";
+
+// apiKeys imports the Prisma client, whose module checks the database
+// connection on load
+jest.mock("../../config/prismaClient", () => {
+  const { createFakePrisma } = jest.requireActual("./fakePrisma");
+  return { __esModule: true, default: createFakePrisma().client };
+});
+
+describe("requiredScope", () => {
+  it.each([
+    ["POST", "/api/summary/generate", "generate"],
+    ["POST", "/api/summary/jobs/", "generate"],
+    ["GET", "/api/summary/batches/abc", "generate"],
+    ["POST", "/api/summary/abc/chat", "generate"],
+    ["GET", "/api/summary", "library:read"],
+    ["GET", "/api/summary/search", "library:read"],
+    ["GET", "/api/summary/abc/export", "library:read"],
+    ["GET", "/api/summary/templates/abc", "library:read"],
+    ["POST", "/api/summary/templates", "library:write"],
+    ["PATCH", "/api/summary/folders/abc", "library:write"],
+    ["POST", "/api/summary/bulk/move", "library:write"],
+    ["DELETE", "/api/summary/abc", "library:write"],
+    ["GET", "/api/auth/me", "library:read"],
+  ])("%s %s needs %s", (method, path, scope) => {
+    expect(requiredScope(method, path)).toBe(scope);
+  });
+
+  it.each([
+    ["POST", "/api/summary/abc/share"],
+    ["GET", "/api/summary/abc/shares"],
+    ["DELETE", "/api/summary/abc/shares/def"],
+    ["POST", "/api/auth/api-keys"],
+    ["POST", "/api/auth/signout"],
+    ["PATCH", "/api/summary/abc/unknown"],
+  ])("refuses %s %s", (method, path) => {
+    expect(requiredScope(method, path)).toBeNull();
+  });
+});
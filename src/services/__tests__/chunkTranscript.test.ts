@@ -0,0 +1,44 @@
+import { chunkTranscript, estimateTokens } from "../chunkTranscript";
+
+const sentence = (n: number) => `Sentence number ${n} talks about the topic at some length.`;
+
+describe("chunkTranscript", () => {
+  const transcript = Array.from({ length: 40 }, (_, i) => sentence(i + 1)).join(" ");
+
+  it("keeps short transcripts in one chunk", () => {
+    expect(chunkTranscript("One. Two. Three.", 100, 10)).toEqual(["One. Two. Three."]);
+  });
+
+  it("splits on sentence boundaries within the token budget", () => {
+    const chunks = chunkTranscript(transcript, 60, 0);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(60);
+      expect(chunk).toMatch(/^Sentence number \d+/);
+      expect(chunk).toMatch(/length\.$/);
+    }
+    expect(chunks.join(" ")).toBe(transcript);
+  });
+
+  it("repeats trailing sentences of a chunk at the start of the next", () => {
+    const chunks = chunkTranscript(transcript, 60, 20);
+
+    for (let i = 1; i < chunks.length; i++) {
+      const [firstSentence] = chunks[i].match(/^[^.]+\./)!;
+      expect(chunks[i - 1]).toContain(firstSentence);
+    }
+  });
+
+  it("breaks a sentence longer than the budget at word boundaries", () => {
+    const long = Array.from({ length: 200 }, (_, i) => `word${i}`).join(" ") + ".";
+    const chunks = chunkTranscript(long, 50, 0);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(50);
+      expect(chunk).not.toMatch(/^\s|\s$/);
+    }
+    expect(chunks.join(" ")).toBe(long);
+  });
+});
@@ -0,0 +1,72 @@
+import { llmConfig } from "../../config/llm";
+import { fakeProvider } from "../llm/fakeProvider";
+import { compareSummaries } from "../compareSummaries";
+import { createFakePrisma } from "./fakePrisma";
+
+jest.mock("../../config/prismaClient", () => {
+  const { createFakePrisma } = jest.requireActual("./fakePrisma");
+  const fake = createFakePrisma();
+  return { __esModule: true, default: fake.client, fake };
+});
+
+const { fake: db } = jest.requireMock("../../config/prismaClient") as {
+  fake: ReturnType<typeof createFakePrisma>;
+};
+
+const defaults = { provider: llmConfig.provider, maxRetries: llmConfig.maxRetries };
+
+const request = { summaryIds: ["s1", "s2"], providerOptions: {}, language: null };
+
+beforeEach(() => {
+  db.reset();
+  llmConfig.provider = "fake";
+  llmConfig.maxRetries = 0;
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+  db.users.push({ id: "alice", email: "alice@example.com", credits: 3 });
+  for (const [id, title] of [
+    ["s1", "Solar at home"],
+    ["s2", "Wind at home"],
+  ]) {
+    db.summaries.push({
+      id,
+      userId: "alice",
+      title,
+      keyPoints: [`${title} saves money over time.`],
+      fullSummary: `${title} is becoming cheaper every year.`,
+    });
+  }
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  llmConfig.provider = defaults.provider;
+  llmConfig.maxRetries = defaults.maxRetries;
+});
+
+describe("compareSummaries", () => {
+  it("asks the model to repair a comparison that fails validation", async () => {
+    const original = fakeProvider.complete.bind(fakeProvider);
+    const complete = jest
+      .spyOn(fakeProvider, "complete")
+      .mockResolvedValueOnce('{ "title": "Broken" }')
+      .mockImplementation(original);
+
+    const { summary } = await compareSummaries("alice", request);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1][0].prompt).toContain("commonThemes");
+    expect(summary.kind).toBe("comparison");
+    expect(db.users[0].credits).toBe(2);
+  });
+
+  it("refunds the credit when the repaired comparison is still invalid", async () => {
+    jest.spyOn(fakeProvider, "complete").mockResolvedValue("not json");
+
+    await expect(compareSummaries("alice", request)).rejects.toMatchObject({
+      code: "bad_response",
+    });
+    expect(db.users[0].credits).toBe(3);
+  });
+});
@@ -0,0 +1,151 @@
+// src/services/__tests__/fakePrisma.ts
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+
+// In-memory stand-in for the Prisma queries the summary pipeline makes, so
+// the pipeline can be tested without a database. Transactions run the
+// callback against the same tables and don't roll back.
+
+type Row = Record<string, any>;
+
+// Nested relation writes ({ create: [...] }) aren't stored
+const scalarData = (data: Row): Row =>
+  Object.fromEntries(
+    Object.entries(data).filter(
+      ([, value]) => !(value && typeof value === "object" && !Array.isArray(value) && "create" in value)
+    )
+  );
+
+const uniqueViolation = () =>
+  new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+    code: "P2002",
+    clientVersion: Prisma.prismaVersion.client,
+  });
+
+const applyUpdate = (row: Row, data: Row) => {
+  for (const [field, value] of Object.entries(data)) {
+    if (value && typeof value === "object" && "increment" in value) row[field] += value.increment;
+    else if (value && typeof value === "object" && "decrement" in value) row[field] -= value.decrement;
+    else row[field] = value;
+  }
+  return row;
+};
+
+export const createFakePrisma = () => {
+  const users: Row[] = [];
+  const summaries: Row[] = [];
+  const videoSummaries: Row[] = [];
+  const creditTransactions: Row[] = [];
+  const chunkSummaries: Row[] = [];
+
+  const now = () => new Date();
+
+  const client: any = {
+    user: {
+      updateMany: async ({ where, data }: Row) => {
+        const matches = users.filter(
+          (user) => user.id === where.id && user.credits >= (where.credits?.gte ?? -Infinity)
+        );
+        matches.forEach((user) => applyUpdate(user, data));
+        return { count: matches.length };
+      },
+      count: async ({ where }: Row) => users.filter((user) => user.id === where.id).length,
+      findUniqueOrThrow: async ({ where }: Row) => {
+        const user = users.find((row) => row.id === where.id);
+        if (!user) throw new Error("User not found");
+        return { ...user };
+      },
+      update: async ({ where, data }: Row) => {
+        const user = users.find((row) => row.id === where.id);
+        if (!user) throw new Error("User not found");
+        return { ...applyUpdate(user, data) };
+      },
+    },
+    creditTransaction: {
+      create: async ({ data }: Row) => {
+        const row = { id: randomUUID(), summaryId: null, createdAt: now(), ...data };
+        creditTransactions.push(row);
+        return { ...row };
+      },
+      update: async ({ where, data }: Row) => {
+        const row = creditTransactions.find((transaction) => transaction.id === where.id);
+        if (!row) throw new Error("Transaction not found");
+        return { ...applyUpdate(row, data) };
+      },
+    },
+    videoSummary: {
+      findUnique: async ({ where }: Row) =>
+        videoSummaries.find((row) => row.cacheKey === where.cacheKey) ?? null,
+      upsert: async ({ where, create }: Row) => {
+        const existing = videoSummaries.find((row) => row.cacheKey === where.cacheKey);
+        if (existing) return existing;
+        const row = { id: randomUUID(), createdAt: now(), ...create };
+        videoSummaries.push(row);
+        return row;
+      },
+    },
+    summary: {
+      findMany: async ({ where }: Row) =>
+        summaries.filter((row) => where.id.in.includes(row.id) && row.userId === where.userId),
+      findUnique: async ({ where }: Row) => {
+        const key = where.userId_videoSummaryId;
+        return (
+          summaries.find((row) =>
+            key
+              ? row.userId === key.userId && row.videoSummaryId === key.videoSummaryId
+              : row.id === where.id
+          ) ?? null
+        );
+      },
+      create: async ({ data }: Row) => {
+        if (
+          data.videoSummaryId &&
+          summaries.some(
+            (row) => row.userId === data.userId && row.videoSummaryId === data.videoSummaryId
+          )
+        ) {
+          throw uniqueViolation();
+        }
+        const row = {
+          id: randomUUID(),
+          kind: "video",
+          favorite: false,
+          folderId: null,
+          embeddingModel: null,
+          comparison: null,
+          createdAt: now(),
+          updatedAt: now(),
+          ...scalarData(data),
+        };
+        summaries.push(row);
+        return row;
+      },
+    },
+    chunkSummary: {
+      findUnique: async ({ where }: Row) =>
+        chunkSummaries.find((row) => row.key === where.key) ?? null,
+      upsert: async ({ where, create, update }: Row) => {
+        const existing = chunkSummaries.find((row) => row.key === where.key);
+        if (existing) return applyUpdate(existing, update);
+        chunkSummaries.push({ ...create });
+        return create;
+      },
+    },
+    $transaction: async (callback: (tx: any) => Promise<unknown>) => callback(client),
+    $queryRaw: async () => [],
+  };
+
+  return {
+    client,
+    users,
+    summaries,
+    videoSummaries,
+    creditTransactions,
+    chunkSummaries,
+    reset: () => {
+      [users, summaries, videoSummaries, creditTransactions, chunkSummaries].forEach((table) =>
+        table.splice(0)
+      );
+    },
+  };
+};
@@ -0,0 +1,280 @@
+import { captionConfig } from "../../config/captions";
+import { chunkingConfig, llmConfig } from "../../config/llm";
+import { fakeProvider } from "../llm/fakeProvider";
+import { SafetyBlockedError } from "../llm";
+import { generateSummary } from "../generateSummary";
+import { parseSummaryRequest, runSummaryPipeline, SummaryRequest } from "../summaryPipeline";
+import { createFakePrisma } from "./fakePrisma";
+
+jest.mock("../../config/prismaClient", () => {
+  const { createFakePrisma } = jest.requireActual("./fakePrisma");
+  const fake = createFakePrisma();
+  return { __esModule: true, default: fake.client, fake };
+});
+
+const { fake: db } = jest.requireMock("../../config/prismaClient") as {
+  fake: ReturnType<typeof createFakePrisma>;
+};
+
+const transcript = [
+  "Solar panels turn sunlight into electricity.",
+  "Batteries store the energy for the night.",
+  "Inverters convert direct current to alternating current.",
+  "Installation costs have fallen every year.",
+  "Most systems pay for themselves within a decade.",
+].join(" ");
+
+const buildRequest = (body: Record<string, unknown> = {}): SummaryRequest => {
+  const { request, error } = parseSummaryRequest({
+    content: transcript,
+    metadata: { videoId: "dQw4w9WgXcQ", title: "Home solar basics" },
+    ...body,
+  });
+  if (!request) throw new Error(error);
+  return request;
+};
+
+const addUser = (id: string, credits: number) => {
+  db.users.push({ id, email: `${id}@example.com`, credits });
+};
+
+const defaults = {
+  provider: llmConfig.provider,
+  maxRetries: llmConfig.maxRetries,
+  singlePassTokens: chunkingConfig.singlePassTokens,
+  chunkTokens: chunkingConfig.chunkTokens,
+};
+
+beforeEach(() => {
+  db.reset();
+  llmConfig.provider = "fake";
+  llmConfig.maxRetries = 0;
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  llmConfig.provider = defaults.provider;
+  llmConfig.maxRetries = defaults.maxRetries;
+  chunkingConfig.singlePassTokens = defaults.singlePassTokens;
+  chunkingConfig.chunkTokens = defaults.chunkTokens;
+});
+
+describe("parseSummaryRequest", () => {
+  const maxTranscriptChars = captionConfig.maxTranscriptChars;
+  afterEach(() => {
+    captionConfig.maxTranscriptChars = maxTranscriptChars;
+  });
+
+  it("reports oversized transcripts as 413", () => {
+    captionConfig.maxTranscriptChars = 50;
+
+    expect(parseSummaryRequest({ content: transcript, metadata: { videoId: "dQw4w9WgXcQ" } }))
+      .toMatchObject({ status: 413, code: "transcript_too_large" });
+    expect(
+      parseSummaryRequest({
+        captions: { data: `WEBVTT\n\n00:00:01.000 --> 00:00:05.000\n${transcript}\n` },
+        metadata: { videoId: "dQw4w9WgXcQ" },
+      })
+    ).toMatchObject({ status: 413, code: "transcript_too_large" });
+  });
+});
+
+describe("generateSummary with the fake provider", () => {
+  it("summarizes a short transcript in one JSON request", async () => {
+    const complete = jest.spyOn(fakeProvider, "complete");
+
+    const summary = await generateSummary(transcript, { title: "Home solar basics" });
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(summary.title).toBe("Home solar basics");
+    expect(summary.keyPoints[0]).toBe("Solar panels turn sunlight into electricity.");
+    expect(summary.fullSummary).toContain("Batteries store the energy");
+  });
+
+  it("summarizes long transcripts chunk by chunk and caches the chunks", async () => {
+    chunkingConfig.singlePassTokens = 20;
+    chunkingConfig.chunkTokens = 30;
+    const complete = jest.spyOn(fakeProvider, "complete");
+
+    await generateSummary(transcript, { title: "Home solar basics" });
+
+    const chunkCalls = complete.mock.calls.length - 1;
+    expect(chunkCalls).toBeGreaterThan(1);
+    expect(db.chunkSummaries).toHaveLength(chunkCalls);
+
+    // The same transcript again only needs the final merge request
+    complete.mockClear();
+    await generateSummary(transcript, { title: "Home solar basics" });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it("asks the model to repair JSON that fails validation", async () => {
+    const original = fakeProvider.complete.bind(fakeProvider);
+    const complete = jest
+      .spyOn(fakeProvider, "complete")
+      .mockResolvedValueOnce('{ "title": "Broken", "keyPoints": [] }')
+      .mockImplementation(original);
+
+    const summary = await generateSummary(transcript, { title: "Home solar basics" });
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1][0].prompt).toContain("keyPoints");
+    expect(summary.keyPoints.length).toBeGreaterThan(0);
+  });
+
+  it("gives up when the repaired JSON is still invalid", async () => {
+    jest.spyOn(fakeProvider, "complete").mockResolvedValue("not json at all");
+
+    await expect(generateSummary(transcript, {})).rejects.toMatchObject({
+      code: "bad_response",
+    });
+  });
+});
+
+describe("runSummaryPipeline", () => {
+  it("generates on a cache miss and charges one credit", async () => {
+    addUser("alice", 3);
+
+    const result = await runSummaryPipeline("alice", buildRequest());
+
+    expect(result).toMatchObject({ cached: false, creditsCharged: 1, creditsRemaining: 2 });
+    expect(db.users[0].credits).toBe(2);
+    expect(db.videoSummaries).toHaveLength(1);
+    expect(db.summaries).toHaveLength(1);
+    expect(db.creditTransactions).toEqual([
+      expect.objectContaining({
+        type: "debit",
+        amount: -1,
+        reason: "summary_generation",
+        summaryId: db.summaries[0].id,
+      }),
+    ]);
+  });
+
+  it("serves other users from the shared cache without generating", async () => {
+    addUser("alice", 3);
+    addUser("bob", 3);
+    await runSummaryPipeline("alice", buildRequest());
+    const complete = jest.spyOn(fakeProvider, "complete");
+
+    const result = await runSummaryPipeline("bob", buildRequest());
+
+    expect(complete).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ cached: true, creditsCharged: 0 });
+    expect(db.users[1].credits).toBe(3);
+    expect(db.summaries).toHaveLength(2);
+    expect(db.summaries[1]).toMatchObject({
+      userId: "bob",
+      videoSummaryId: db.videoSummaries[0].id,
+    });
+  });
+
+  it("returns the user's existing entry for free on a repeat request", async () => {
+    addUser("alice", 3);
+    const first = await runSummaryPipeline("alice", buildRequest());
+
+    const second = await runSummaryPipeline("alice", buildRequest());
+
+    expect(second).toMatchObject({ cached: true, creditsCharged: 0 });
+    expect(second.data.id).toBe(first.data.id);
+    expect(db.users[0].credits).toBe(2);
+  });
+
+  it("misses the cache when the provider options differ", async () => {
+    addUser("alice", 3);
+    await runSummaryPipeline("alice", buildRequest());
+
+    const result = await runSummaryPipeline(
+      "alice",
+      buildRequest({ options: { style: "detailed_notes" } })
+    );
+
+    expect(result.cached).toBe(false);
+    expect(db.videoSummaries).toHaveLength(2);
+  });
+
+  it("misses the cache when another transcript is sent for the same video", async () => {
+    addUser("mallory", 3);
+    addUser("alice", 3);
+    await runSummaryPipeline(
+      "mallory",
+      buildRequest({ content: "Solar panels are a scam. Buy my course instead." })
+    );
+
+    const result = await runSummaryPipeline("alice", buildRequest());
+
+    expect(result.cached).toBe(false);
+    expect(db.videoSummaries).toHaveLength(2);
+    expect(result.data.fullSummary).not.toContain("scam");
+  });
+
+  it("charges once when the same user generates a video twice at once", async () => {
+    addUser("alice", 3);
+
+    const results = await Promise.all([
+      runSummaryPipeline("alice", buildRequest()),
+      runSummaryPipeline("alice", buildRequest()),
+    ]);
+
+    expect(results.map((result) => result.creditsCharged).sort()).toEqual([0, 1]);
+    expect(results[0].data.id).toBe(results[1].data.id);
+    expect(db.summaries).toHaveLength(1);
+    expect(db.users[0].credits).toBe(2);
+    expect(db.creditTransactions.filter((row) => row.type === "refund")).toEqual([
+      expect.objectContaining({ amount: 1, reason: "already_in_library" }),
+    ]);
+  });
+
+  it("refunds the credit when generation fails", async () => {
+    addUser("alice", 3);
+    jest.spyOn(fakeProvider, "complete").mockRejectedValue(new SafetyBlockedError());
+
+    await expect(runSummaryPipeline("alice", buildRequest())).rejects.toBeInstanceOf(
+      SafetyBlockedError
+    );
+
+    expect(db.users[0].credits).toBe(3);
+    expect(db.creditTransactions.map(({ type, amount, reason }) => ({ type, amount, reason })))
+      .toEqual([
+        { type: "debit", amount: -1, reason: "summary_generation" },
+        { type: "refund", amount: 1, reason: "generation_failed" },
+      ]);
+    expect(db.summaries).toHaveLength(0);
+  });
+
+  it("refunds the credit when the summary can't be saved", async () => {
+    addUser("alice", 3);
+    jest.spyOn(db.client.videoSummary, "upsert").mockRejectedValueOnce(new Error("db down"));
+
+    await expect(runSummaryPipeline("alice", buildRequest())).rejects.toThrow("db down");
+
+    expect(db.users[0].credits).toBe(3);
+    expect(db.creditTransactions.map(({ type, reason }) => ({ type, reason }))).toEqual([
+      { type: "debit", reason: "summary_generation" },
+      { type: "refund", reason: "save_failed" },
+    ]);
+  });
+
+  it("refuses to generate without credits", async () => {
+    addUser("alice", 0);
+    const complete = jest.spyOn(fakeProvider, "complete");
+
+    await expect(runSummaryPipeline("alice", buildRequest())).rejects.toMatchObject({
+      status: 403,
+      code: "insufficient_credits",
+    });
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it("neither reserves nor refunds for prepaid callers", async () => {
+    addUser("alice", 3);
+
+    const result = await runSummaryPipeline("alice", buildRequest(), { prepaid: true });
+
+    expect(result).toMatchObject({ cached: false, creditsCharged: 1 });
+    expect(db.users[0].credits).toBe(3);
+    expect(db.creditTransactions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { extractJson, validateSummaryJson } from "../summaryResponse";
+
+describe("extractJson", () => {
+  it("reads JSON wrapped in a code fence and prose", () => {
+    const text = 'Here you go:\n```json\n{ "title": "A", "keyPoints": ["x"] }\n```\nEnjoy!';
+    expect(extractJson(text)).toEqual({ title: "A", keyPoints: ["x"] });
+  });
+
+  it("returns undefined for text without a JSON object", () => {
+    expect(extractJson("no json here")).toBeUndefined();
+    expect(extractJson('{ "title": "unterminated" ')).toBeUndefined();
+  });
+});
+
+describe("validateSummaryJson", () => {
+  const valid = { title: "A", keyPoints: ["one"], fullSummary: "Summary." };
+
+  it("accepts a summary matching the schema", () => {
+    const { summary, errors } = validateSummaryJson(valid, false);
+    expect(errors).toEqual([]);
+    expect(summary).toMatchObject({ keyPoints: ["one"], fullSummary: "Summary." });
+  });
+
+  it("lists problems for the repair prompt", () => {
+    const { summary, errors } = validateSummaryJson({ title: "A", keyPoints: [] }, false);
+    expect(summary).toBeUndefined();
+    expect(errors.length).toBeGreaterThan(0);
+  });
+
+  it("requires chapters for timed transcripts", () => {
+    expect(validateSummaryJson(valid, true).summary).toBeUndefined();
+  });
+});
@@ -0,0 +1,272 @@
+// src/services/apiKeys.ts
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcrypt";
+import { ApiKey } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { apiKeyConfig } from "../config/apiKeys";
+import { HttpError } from "../utils/httpError";
+
+export type ApiKeyScope = "library:read" | "library:write" | "generate";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ["library:read", "library:write", "generate"];
+
+const MAX_NAME_LENGTH = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ysk_<12 hex prefix>_<43 base64url secret>
+const KEY_PATTERN = /^ysk_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+// Which scope an API key needs for a request, by method and full path.
+// The first matching rule applies; requests matching none are refused, so
+// account, session and key management routes stay session-only. So do share
+// links, which publish a summary to anyone holding the URL.
+const SCOPE_RULES: { methods: string[]; path: RegExp; scope: ApiKeyScope }[] = [
+  {
+    methods: ["POST"],
+    path: /^\/api\/summary\/(generate(\/stream)?|jobs|batches|compare|captions\/parse|[^/]+\/chat)$/,
+    scope: "generate",
+  },
+  { methods: ["GET"], path: /^\/api\/summary\/(jobs|batches)(\/[^/]+)?$/, scope: "generate" },
+  { methods: ["POST"], path: /^\/api\/summary\/export$/, scope: "library:read" },
+  {
+    methods: ["GET", "HEAD"],
+    path: /^\/api\/summary\/(templates|folders|tags)(\/[^/]+)?$/,
+    scope: "library:read",
+  },
+  {
+    methods: ["POST", "PATCH", "DELETE"],
+    path: /^\/api\/summary\/(templates|folders|tags)(\/[^/]+)?$/,
+    scope: "library:write",
+  },
+  {
+    methods: ["GET", "HEAD"],
+    path: /^\/api\/summary(\/[^/]+(\/(chat|export))?)?$/,
+    scope: "library:read",
+  },
+  { methods: ["POST"], path: /^\/api\/summary\/(save|bulk\/(tags|move))$/, scope: "library:write" },
+  { methods: ["PATCH", "DELETE"], path: /^\/api\/summary\/[^/]+$/, scope: "library:write" },
+  { methods: ["GET", "HEAD"], path: /^\/api\/auth\/me(\/credits\/history)?$/, scope: "library:read" },
+];
+
+export interface VerifiedApiKey {
+  id: string;
+  scopes: ApiKeyScope[];
+  user: { id: string; email: string; name: string; image: string };
+}
+
+/**
+ * Validate a create-key request body: a name, at least one scope and an
+ * optional lifetime in days
+ * @returns The parsed values, or an error message for a 400 response
+ */
+export const parseApiKeyRequest = (
+  body: any
+): { name?: string; scopes?: ApiKeyScope[]; expiresAt?: Date | null; error?: string } => {
+  const { name, scopes, expiresInDays } = body || {};
+  const maxDays = apiKeyConfig.maxExpiryDays;
+
+  if (typeof name !== "string" || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `name is required and must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every((scope) => API_KEY_SCOPES.includes(scope))
+  ) {
+    return { error: `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(", ")}` };
+  }
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (typeof expiresInDays !== "number" || !(expiresInDays > 0) || expiresInDays > maxDays) {
+      return { error: `expiresInDays must be greater than 0 and at most ${maxDays}` };
+    }
+  }
+
+  return {
+    name: name.trim(),
+    scopes: Array.from(new Set(scopes as ApiKeyScope[])),
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+  };
+};
+
+const keyStatus = (key: ApiKey): "active" | "revoked" | "expired" =>
+  key.revokedAt
+    ? "revoked"
+    : key.expiresAt && key.expiresAt.getTime() <= Date.now()
+      ? "expired"
+      : "active";
+
+/**
+ * API key as shown to its owner; the secret is never included
+ */
+export const serializeApiKey = (key: ApiKey) => ({
+  id: key.id,
+  name: key.name,
+  prefix: `ysk_${key.prefix}`,
+  scopes: key.scopes,
+  status: keyStatus(key),
+  lastUsedAt: key.lastUsedAt,
+  expiresAt: key.expiresAt,
+  revokedAt: key.revokedAt,
+  createdAt: key.createdAt,
+});
+
+/**
+ * Create an API key for the user
+ * @returns The stored key and the full key, which can't be shown again
+ * @throws HttpError 409 when the user already has the maximum number of
+ * active keys
+ */
+export const createApiKey = async (
+  userId: string,
+  input: { name: string; scopes: ApiKeyScope[]; expiresAt: Date | null }
+): Promise<{ apiKey: ApiKey; key: string }> => {
+  const active = await prisma.apiKey.count({
+    where: {
+      userId,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+  });
+  if (active >= apiKeyConfig.maxKeysPerUser) {
+    throw new HttpError(
+      409,
+      `You can have at most ${apiKeyConfig.maxKeysPerUser} active API keys`,
+      "api_key_limit_reached"
+    );
+  }
+
+  const prefix = randomBytes(6).toString("hex");
+  const key = `ysk_${prefix}_${randomBytes(32).toString("base64url")}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId,
+      name: input.name,
+      prefix,
+      keyHash: await bcrypt.hash(key, apiKeyConfig.bcryptRounds),
+      scopes: input.scopes,
+      expiresAt: input.expiresAt,
+    },
+  });
+
+  return { apiKey, key };
+};
+
+/**
+ * List the user's API keys, newest first
+ */
+export const listApiKeys = (userId: string): Promise<ApiKey[]> =>
+  prisma.apiKey.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+
+// Keys that passed the bcrypt check recently, keyed by a hash of the key
+const verifiedKeys = new Map<string, { key: VerifiedApiKey; expiresAt: number }>();
+
+const cacheKey = (key: string): string => createHash("sha256").update(key).digest("hex");
+
+/**
+ * Revoke one of the user's API keys; the record is kept so its last use
+ * stays visible
+ * @throws HttpError 404 when the key doesn't belong to the user
+ */
+export const revokeApiKey = async (userId: string, keyId: string): Promise<ApiKey> => {
+  const apiKey = await prisma.apiKey.findFirst({ where: { id: keyId, userId } });
+  if (!apiKey) {
+    throw new HttpError(404, "API key not found", "api_key_not_found");
+  }
+
+  verifiedKeys.forEach((entry, hash) => {
+    if (entry.key.id === apiKey.id) verifiedKeys.delete(hash);
+  });
+  if (apiKey.revokedAt) return apiKey;
+
+  return prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { revokedAt: new Date() },
+  });
+};
+
+/**
+ * Whether a credential has the API key format, as opposed to a Supabase
+ * access token
+ */
+export const isApiKey = (credential: string): boolean => credential.startsWith("ysk_");
+
+/**
+ * Check an API key and load its owner
+ * @returns The key's id, scopes and user
+ * @throws HttpError 401 for unknown, malformed, revoked or expired keys
+ */
+export const verifyApiKey = async (key: string): Promise<VerifiedApiKey> => {
+  const hash = cacheKey(key);
+  const cached = verifiedKeys.get(hash);
+  if (cached && cached.expiresAt > Date.now()) return cached.key;
+  verifiedKeys.delete(hash);
+
+  const invalid = new HttpError(401, "Invalid or revoked API key", "invalid_api_key");
+  const match = key.match(KEY_PATTERN);
+  if (!match) throw invalid;
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { prefix: match[1] },
+    include: { user: true },
+  });
+  if (!apiKey || keyStatus(apiKey) !== "active" || !(await bcrypt.compare(key, apiKey.keyHash))) {
+    throw invalid;
+  }
+
+  const verified: VerifiedApiKey = {
+    id: apiKey.id,
+    scopes: apiKey.scopes as ApiKeyScope[],
+    user: {
+      id: apiKey.user.id,
+      email: apiKey.user.email,
+      name: apiKey.user.name || "",
+      image: apiKey.user.imageUrl || "",
+    },
+  };
+
+  // Never cache past the key's own expiry
+  verifiedKeys.set(hash, {
+    key: verified,
+    expiresAt: Math.min(
+      Date.now() + apiKeyConfig.verifiedCacheTtlMs,
+      apiKey.expiresAt?.getTime() ?? Number.POSITIVE_INFINITY
+    ),
+  });
+  return verified;
+};
+
+/**
+ * Record that a key was used, writing at most once per configured interval
+ */
+export const touchApiKey = async (keyId: string): Promise<void> => {
+  const now = new Date();
+  await prisma.apiKey.updateMany({
+    where: {
+      id: keyId,
+      OR: [
+        { lastUsedAt: null },
+        { lastUsedAt: { lt: new Date(now.getTime() - apiKeyConfig.lastUsedWriteIntervalMs) } },
+      ],
+    },
+    data: { lastUsedAt: now },
+  });
+};
+
+/**
+ * Scope an API key needs for a request
+ * @param method HTTP method
+ * @param path Full request path, e.g. /api/summary/generate
+ * @returns The scope, or null when API keys can't be used for the route
+ */
+export const requiredScope = (method: string, path: string): ApiKeyScope | null => {
+  // Router roots arrive as e.g. /api/summary/jobs/
+  const normalized = path.replace(/\/+$/, "");
+  return (
+    SCOPE_RULES.find((rule) => rule.methods.includes(method) && rule.path.test(normalized))
+      ?.scope ?? null
+  );
+};
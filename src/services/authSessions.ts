@@ -0,0 +1,221 @@
+// src/services/authSessions.ts
+import { EmailOtpType, Session, User as SupabaseUser } from "@supabase/supabase-js";
+import prisma from "../config/prismaClient";
+import supabase, { createSessionClient } from "../config/supabaseClient";
+import { authRedirectConfig } from "../config/auth";
+import { initialCreditGrant, SIGNUP_CREDITS } from "./credits";
+import {
+  forgetVerifiedToken,
+  revokeTokens,
+  SignOutScope,
+  verifyAccessToken,
+} from "./tokenVerification";
+import { HttpError } from "../utils/httpError";
+
+export const EMAIL_VERIFICATION_TYPES: EmailOtpType[] = ["email", "signup", "email_change"];
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  // Access token expiry, in epoch milliseconds
+  expiresAt: number;
+}
+
+export interface SessionUser {
+  id: string;
+  name: string | null;
+  email: string;
+  credits: number;
+  imageUrl: string | null;
+  emailVerified: boolean;
+  createdAt?: Date;
+}
+
+/**
+ * Client-facing tokens of a Supabase session, with its real expiry
+ */
+export const serializeSession = (session: Session): SessionTokens => ({
+  token: session.access_token,
+  refreshToken: session.refresh_token,
+  expiresAt: session.expires_at
+    ? session.expires_at * 1000
+    : Date.now() + session.expires_in * 1000,
+});
+
+/**
+ * Create or update the local row for a Supabase user after sign-in, keeping
+ * emailVerified in step with Supabase's confirmation state
+ * @param user Supabase user from the auth response
+ * @param options name to use when the row is created; provider for OAuth
+ * sign-ins, which also refreshes the stored avatar
+ * @returns The user's profile; token data with no credits when the database
+ * is unavailable
+ */
+export const syncSessionUser = async (
+  user: SupabaseUser,
+  options: { name?: string; provider?: string } = {}
+): Promise<SessionUser> => {
+  const emailVerified = !!user.email_confirmed_at;
+  const name = options.name || user.user_metadata?.full_name || user.user_metadata?.name;
+  const imageUrl: string | undefined =
+    user.user_metadata?.avatar_url || user.user_metadata?.picture || undefined;
+
+  try {
+    let dbUser = await prisma.user.findUnique({ where: { id: user.id } });
+
+    if (!dbUser) {
+      dbUser = await prisma.user.create({
+        data: {
+          id: user.id,
+          email: user.email!,
+          name: name || "New User",
+          imageUrl,
+          provider: options.provider || "supabase",
+          emailVerified,
+          credits: SIGNUP_CREDITS,
+          creditTransactions: initialCreditGrant(SIGNUP_CREDITS),
+        },
+      });
+    } else {
+      const changes = {
+        ...(dbUser.emailVerified !== emailVerified
+          ? { emailVerified, ...(emailVerified ? { verificationToken: null } : {}) }
+          : {}),
+        ...(options.provider && options.provider !== dbUser.provider
+          ? { provider: options.provider }
+          : {}),
+        ...(options.provider && imageUrl && imageUrl !== dbUser.imageUrl ? { imageUrl } : {}),
+        // Fill in names left at the placeholder by earlier sign-ins
+        ...(name && (!dbUser.name || dbUser.name === "New User") ? { name } : {}),
+      };
+      if (Object.keys(changes).length > 0) {
+        dbUser = await prisma.user.update({ where: { id: user.id }, data: changes });
+      }
+    }
+
+    return {
+      id: dbUser.id,
+      name: dbUser.name,
+      email: dbUser.email,
+      credits: dbUser.credits,
+      imageUrl: dbUser.imageUrl,
+      emailVerified: dbUser.emailVerified,
+      createdAt: dbUser.createdAt,
+    };
+  } catch (dbError) {
+    console.error("Database error syncing signed-in user:", dbError);
+
+    // Still return the session even if database operations fail
+    return {
+      id: user.id,
+      name: name || "",
+      email: user.email!,
+      credits: 0,
+      imageUrl: imageUrl || "",
+      emailVerified,
+    };
+  }
+};
+
+/**
+ * Exchange a refresh token for a new session. Supabase rotates refresh
+ * tokens, so the returned one replaces the old.
+ * @throws HttpError 401 when the refresh token is invalid, used or revoked
+ */
+export const refreshSession = async (
+  refreshToken: string
+): Promise<{ session: Session; user: SupabaseUser }> => {
+  const { data, error } = await createSessionClient().auth.refreshSession({ refresh_token: refreshToken });
+  if (error || !data.session || !data.user) {
+    throw new HttpError(401, error?.message || "Invalid refresh token", "invalid_refresh_token");
+  }
+  return { session: data.session, user: data.user };
+};
+
+/**
+ * End the session of an access token, or every session of its user, in
+ * Supabase and in this server's token cache
+ * @throws HttpError 502 when Supabase can't be reached to revoke the session
+ */
+export const signOut = async (token: string, scope: SignOutScope): Promise<void> => {
+  const claims = await verifyAccessToken(token);
+
+  const { error } = await supabase.auth.admin.signOut(token, scope);
+  // 401/404: the session is already gone
+  if (error && error.status !== 401 && error.status !== 404) {
+    console.error("Supabase sign-out failed:", error);
+    throw new HttpError(502, "Failed to sign out", "sign_out_failed");
+  }
+
+  revokeTokens(claims, scope);
+  forgetVerifiedToken(token);
+};
+
+/**
+ * Email a password reset link. Succeeds whether or not the address has an
+ * account, so the endpoint can't be used to discover users.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: authRedirectConfig.passwordReset,
+  });
+  if (error) console.error("Password reset email failed:", error.message);
+};
+
+/**
+ * Set a new password using the token_hash from a reset email, then sign
+ * the user out everywhere
+ * @throws HttpError 400 for invalid or expired links and rejected passwords
+ */
+export const resetPassword = async (tokenHash: string, password: string): Promise<void> => {
+  const { data, error } = await createSessionClient().auth.verifyOtp({
+    token_hash: tokenHash,
+    type: "recovery",
+  });
+  if (error || !data.user || !data.session) {
+    throw new HttpError(400, "Reset link is invalid or has expired", "invalid_reset_token");
+  }
+
+  const { error: updateError } = await supabase.auth.admin.updateUserById(data.user.id, {
+    password,
+  });
+  if (updateError) {
+    throw new HttpError(400, updateError.message, "password_rejected");
+  }
+
+  // Existing sessions may belong to whoever knew the old password
+  await signOut(data.session.access_token, "global");
+};
+
+/**
+ * Confirm an email address using the token_hash from a verification email
+ * @returns The session started by the confirmation, when Supabase opens one
+ * @throws HttpError 400 for invalid or expired links
+ */
+export const verifyEmail = async (
+  tokenHash: string,
+  type: EmailOtpType
+): Promise<{ session: Session | null; user: SupabaseUser }> => {
+  const { data, error } = await createSessionClient().auth.verifyOtp({ token_hash: tokenHash, type });
+  if (error || !data.user) {
+    throw new HttpError(
+      400,
+      "Verification link is invalid or has expired",
+      "invalid_verification_token"
+    );
+  }
+  return { session: data.session, user: data.user };
+};
+
+/**
+ * Send the signup confirmation email again. Succeeds whether or not the
+ * address has a pending signup.
+ */
+export const resendVerificationEmail = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resend({
+    type: "signup",
+    email,
+    options: { emailRedirectTo: authRedirectConfig.emailVerification },
+  });
+  if (error) console.error("Verification email failed:", error.message);
+};
@@ -0,0 +1,293 @@
+// src/services/captionIngestion.ts
+import { captionConfig } from "../config/captions";
+import { segmentsToText, TranscriptSegment } from "./transcriptSegments";
+import { HttpError } from "../utils/httpError";
+
+// Standalone caption file parsing: no request or database dependencies, so
+// any client of the server code can normalize captions the same way
+
+export type CaptionFormat = "vtt" | "srt" | "timedtext" | "json3";
+
+export const CAPTION_FORMATS: CaptionFormat[] = ["vtt", "srt", "timedtext", "json3"];
+
+export interface NormalizedTranscript {
+  format: CaptionFormat;
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+// Cue as read from the file, before cleanup
+interface RawCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const CUE_TIMING = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+// Sound and speaker annotations: [Music], [Applause], (laughs), ♪ lyrics ♪
+const ANNOTATION = /\[[^\]]*\]|\((?:music|applause|laughs?|laughter|inaudible|silence)\)|♪[^♪]*♪|♪/gi;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const captionError = (message: string) => new HttpError(400, message, "invalid_captions");
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point =
+        code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff
+        ? String.fromCodePoint(point)
+        : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Strip markup and annotations from one cue's text
+ */
+const cleanCueText = (text: string): string =>
+  decodeEntities(text.replace(/<[^>]*>/g, ""))
+    .replace(ANNOTATION, " ")
+    // Speaker change markers at the start of a line
+    .replace(/^\s*(?:>>|-(?=\s))\s*/gm, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Parse hh:mm:ss.ttt, mm:ss.ttt or hh:mm:ss,ttt into seconds
+const parseCueTime = (value: string): number => {
+  const [clock, fraction] = value.split(/[.,]/);
+  const seconds = clock.split(":").reduce((acc, part) => acc * 60 + Number(part), 0);
+  return seconds + Number(`0.${fraction || 0}`);
+};
+
+/**
+ * Read WebVTT and SRT files, which share the `start --> end` cue layout
+ */
+const parseCueFile = (raw: string): RawCue[] => {
+  const cues: RawCue[] = [];
+
+  // Only empty lines end a cue; YouTube files put lines of a single space
+  // inside cues
+  for (const block of raw.split(/\r?\n\r?\n/)) {
+    const lines = block.split(/\r?\n/);
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    // Header, NOTE, STYLE and REGION blocks have no timing line
+    if (timingIndex < 0) continue;
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    cues.push({
+      start: parseCueTime(start),
+      end: parseCueTime(end),
+      text: lines.slice(timingIndex + 1).join("\n"),
+    });
+  }
+
+  return cues;
+};
+
+const attribute = (attributes: string, name: string): string | null => {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? match[1] : null;
+};
+
+/**
+ * Read YouTube timedtext XML: the legacy `<text start dur>` layout (seconds)
+ * and format 3 `<p t d>` (milliseconds)
+ */
+const parseTimedText = (raw: string): RawCue[] => {
+  const cues: RawCue[] = [];
+  const element = /<(text|p)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = element.exec(raw)) !== null) {
+    const [, tag, attributes, body] = match;
+    const isLegacy = tag === "text";
+    const start = Number(attribute(attributes, isLegacy ? "start" : "t"));
+    const duration = Number(attribute(attributes, isLegacy ? "dur" : "d") || 0);
+    if (!Number.isFinite(start)) continue;
+
+    const scale = isLegacy ? 1 : 1000;
+    // Legacy files escape entities twice (&amp;#39;)
+    const text = isLegacy ? decodeEntities(body) : body;
+    cues.push({ start: start / scale, end: (start + duration) / scale, text });
+  }
+
+  return cues;
+};
+
+/**
+ * Read YouTube JSON3 captions: `events` with `tStartMs`, `dDurationMs` and
+ * `segs[].utf8`
+ */
+const parseJson3 = (raw: string): RawCue[] => {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw captionError("Caption file is not valid JSON");
+  }
+  if (!data || !Array.isArray(data.events)) {
+    throw captionError("JSON3 captions must have an events array");
+  }
+
+  return data.events
+    .filter((event: any) => Array.isArray(event?.segs) && Number.isFinite(event.tStartMs))
+    .map((event: any) => ({
+      start: event.tStartMs / 1000,
+      end: (event.tStartMs + (Number(event.dDurationMs) || 0)) / 1000,
+      text: event.segs.map((seg: any) => (typeof seg?.utf8 === "string" ? seg.utf8 : "")).join(""),
+    }));
+};
+
+/**
+ * Guess the format of a caption file from its content
+ * @returns The format, or null when it isn't recognized
+ */
+export const detectCaptionFormat = (raw: string): CaptionFormat | null => {
+  const head = raw.replace(/^\uFEFF/, "").trimStart();
+  if (/^WEBVTT/.test(head)) return "vtt";
+  if (head.startsWith("{")) return "json3";
+  if (head.startsWith("<")) return "timedtext";
+  if (CUE_TIMING.test(head.slice(0, 500))) return "srt";
+  return null;
+};
+
+const wordsOf = (text: string): string[] => text.split(" ").filter(Boolean);
+
+/**
+ * Number of leading words of `next` that repeat the end of `previous`.
+ * Rolling captions re-show the previous line before adding new words, so
+ * overlaps of two or more words (or a whole repeated cue) are dropped.
+ */
+const rollingOverlap = (previous: string[], next: string[]): number => {
+  const lower = (words: string[]) => words.map((word) => word.toLowerCase());
+  const prev = lower(previous);
+  const curr = lower(next);
+
+  for (let k = Math.min(prev.length, curr.length); k >= 1; k--) {
+    if (k < 2 && k < curr.length) break;
+    const suffix = prev.slice(prev.length - k);
+    if (suffix.every((word, i) => word === curr[i])) return k;
+  }
+  return 0;
+};
+
+/**
+ * Turn raw cues into clean, ordered segments without rolling duplicates
+ */
+const normalizeCues = (cues: RawCue[]): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  let previous: string[] = [];
+
+  const sorted = cues
+    .filter((cue) => Number.isFinite(cue.start) && cue.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  for (const cue of sorted) {
+    const words = wordsOf(cleanCueText(cue.text));
+    if (words.length === 0) continue;
+
+    const fresh = words.slice(rollingOverlap(previous, words));
+    previous = words;
+    if (fresh.length === 0) continue;
+
+    segments.push({
+      start: cue.start,
+      duration: Math.max(0, cue.end - cue.start),
+      text: fresh.join(" "),
+    });
+  }
+
+  return segments;
+};
+
+/**
+ * Throw when a transcript is too long to summarize
+ * @throws HttpError 413 naming the limit
+ */
+export const assertTranscriptSize = (text: string): void => {
+  if (text.length > captionConfig.maxTranscriptChars) {
+    throw new HttpError(
+      413,
+      `Transcript is ${text.length} characters; the limit is ${captionConfig.maxTranscriptChars}`,
+      "transcript_too_large"
+    );
+  }
+};
+
+/**
+ * Parse a caption file into clean transcript text and timed segments.
+ * Markup, sound annotations like [Music] and rolling-caption repeats are
+ * removed.
+ * @param raw File contents
+ * @param format Known format; detected from the content when omitted
+ * @returns The format used, the transcript text and its segments
+ * @throws HttpError 400 for unreadable or empty files, 413 when the file or
+ * the resulting transcript is too large
+ */
+export const parseCaptionFile = (raw: string, format?: CaptionFormat): NormalizedTranscript => {
+  if (raw.length > captionConfig.maxFileChars) {
+    throw new HttpError(
+      413,
+      `Caption file is ${raw.length} characters; the limit is ${captionConfig.maxFileChars}`,
+      "caption_file_too_large"
+    );
+  }
+
+  const detected = format || detectCaptionFormat(raw);
+  if (!detected) {
+    throw captionError(`Unrecognized caption format. Supported: ${CAPTION_FORMATS.join(", ")}`);
+  }
+
+  const content = raw.replace(/^\uFEFF/, "");
+  const cues =
+    detected === "json3"
+      ? parseJson3(content)
+      : detected === "timedtext"
+        ? parseTimedText(content)
+        : parseCueFile(content);
+
+  const segments = normalizeCues(cues);
+  if (segments.length === 0) {
+    throw captionError(`No captions found in the ${detected} file`);
+  }
+
+  const text = segmentsToText(segments);
+  assertTranscriptSize(text);
+
+  return { format: detected, text, segments };
+};
+
+/**
+ * Validate a `captions` request value: `{ data, format? }`
+ * @returns The normalized transcript, or an error message with the response
+ * status (400, or 413 for oversized files and transcripts) and error code
+ */
+export const parseCaptionsInput = (
+  raw: any
+): { transcript?: NormalizedTranscript; error?: string; status?: number; code?: string } => {
+  if (!raw || typeof raw.data !== "string" || !raw.data.trim()) {
+    return { error: "captions.data must be the caption file contents as a string" };
+  }
+  if (raw.format !== undefined && !CAPTION_FORMATS.includes(raw.format)) {
+    return { error: `captions.format must be one of: ${CAPTION_FORMATS.join(", ")}` };
+  }
+
+  try {
+    return { transcript: parseCaptionFile(raw.data, raw.format) };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return { error: error.message, status: error.status, code: error.code };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,85 @@
+// src/services/chunkTranscript.ts
+
+// Rough heuristic: ~4 characters per token for English text
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate how many model tokens a piece of text will use
+ * @param text Text to measure
+ * @returns Approximate token count
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const splitSentences = (text: string): string[] =>
+  (text.replace(/\s+/g, " ").match(/[^.!?]+[.!?]*\s*/g) || [])
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+
+// Break a sentence that alone exceeds the budget into word-bounded pieces
+const splitOversized = (sentence: string, maxTokens: number): string[] => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const word of sentence.split(" ")) {
+    if (current && current.length + word.length + 1 > maxChars) {
+      pieces.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${word}` : word;
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+};
+
+/**
+ * Split a transcript into overlapping, sentence-aligned chunks that each fit
+ * within a token budget
+ * @param transcript Full transcript text
+ * @param maxTokens Token budget per chunk
+ * @param overlapTokens Tokens of trailing context repeated at the start of the next chunk
+ * @returns Ordered list of chunk texts
+ */
+export const chunkTranscript = (
+  transcript: string,
+  maxTokens: number,
+  overlapTokens: number
+): string[] => {
+  const sentences = splitSentences(transcript).flatMap((sentence) =>
+    estimateTokens(sentence) > maxTokens ? splitOversized(sentence, maxTokens) : [sentence]
+  );
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const sentence of sentences) {
+    const tokens = estimateTokens(sentence);
+
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      chunks.push(current.join(" "));
+
+      // Carry trailing sentences forward so context isn't cut mid-thought
+      const overlap: string[] = [];
+      let overlapSize = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const size = estimateTokens(current[i]);
+        if (overlapSize + size > overlapTokens || overlapSize + size + tokens > maxTokens) break;
+        overlap.unshift(current[i]);
+        overlapSize += size;
+      }
+
+      current = overlap;
+      currentTokens = overlapSize;
+    }
+
+    current.push(sentence);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) chunks.push(current.join(" "));
+
+  return chunks;
+};
@@ -0,0 +1,177 @@
+// src/services/compareSummaries.ts
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { compareConfig } from "../config/compare";
+import { BadResponseError, completeJson, parseProviderOptions, ProviderOptions } from "./llm";
+import { linkReservation, refundCredits, reserveCredits } from "./credits";
+import { buildComparePrompt, buildRepairPrompt } from "./summaryPrompts";
+import {
+  comparisonJsonSchema,
+  extractJson,
+  ParsedComparison,
+  validateComparisonJson,
+} from "./summaryResponse";
+import { parseStyleOptions } from "./summaryStyles";
+import { indexSummaryEmbedding } from "./librarySearch";
+import { parseSummaryIds } from "./libraryOrganization";
+import { serializeSummary, SerializedSummary } from "../utils/serializeSummary";
+import { HttpError } from "../utils/httpError";
+
+export interface CompareRequest {
+  summaryIds: string[];
+  providerOptions: ProviderOptions;
+  language: string | null;
+}
+
+export interface StoredComparison {
+  commonThemes: string[];
+  contradictions: string[];
+  // Titles are copied so the comparison still reads well after a source is deleted
+  unique: { summaryId: string; title: string; points: string[] }[];
+}
+
+// Include for summary queries so serializeSummary can list comparison sources
+export const comparisonSourcesInclude = Prisma.validator<Prisma.SummaryInclude>()({
+  sources: {
+    orderBy: { position: "asc" },
+    include: { source: { select: { id: true, title: true, videoId: true, videoUrl: true } } },
+  },
+});
+
+/**
+ * Validate a compare request body
+ * @param body Untrusted request body with summaryIds and options
+ * @returns The normalized request, or an error message for a 400 response
+ */
+export const parseCompareRequest = (
+  body: any
+): { request?: CompareRequest; error?: string } => {
+  const { ids, error } = parseSummaryIds(body?.summaryIds);
+  if (!ids) {
+    return { error };
+  }
+  if (ids.length < 2 || ids.length > compareConfig.maxSources) {
+    return { error: `Compare between 2 and ${compareConfig.maxSources} summaries` };
+  }
+
+  const { options: providerOptions, error: providerError } = parseProviderOptions(body.options);
+  if (providerError) {
+    return { error: providerError };
+  }
+  const { options: styleOptions, error: styleError } = parseStyleOptions(body.options);
+  if (styleError) {
+    return { error: styleError };
+  }
+
+  return {
+    request: { summaryIds: ids, providerOptions, language: styleOptions.language },
+  };
+};
+
+/**
+ * Ask for the comparison as JSON, re-asking once with the validation errors
+ * when the first answer doesn't match the schema
+ */
+const requestJsonComparison = async (
+  prompt: string,
+  sourceCount: number,
+  options: ProviderOptions
+): Promise<ParsedComparison> => {
+  const text = await completeJson(prompt, options);
+  const first = validateComparisonJson(extractJson(text), sourceCount);
+  if (first.comparison) return first.comparison;
+
+  console.warn("Comparison JSON failed validation, asking for a repair:", first.errors.join("; "));
+  const repaired = await completeJson(
+    buildRepairPrompt(text, first.errors, comparisonJsonSchema(sourceCount)),
+    options
+  );
+  const second = validateComparisonJson(extractJson(repaired), sourceCount);
+  if (second.comparison) return second.comparison;
+
+  throw new BadResponseError(
+    `The model response did not match the comparison schema: ${second.errors.join("; ")}`
+  );
+};
+
+/**
+ * Compare several of the user's summaries and store the result as a new
+ * library entry linked to its sources. Credits are reserved up front and
+ * refunded if the comparison fails.
+ * @param userId Owner of the summaries
+ * @param request Validated compare request
+ * @returns The stored comparison and the remaining credits
+ * @throws HttpError 404 when any summary doesn't belong to the user
+ */
+export const compareSummaries = async (
+  userId: string,
+  request: CompareRequest
+): Promise<{ summary: SerializedSummary; creditsRemaining: number }> => {
+  const rows = await prisma.summary.findMany({
+    where: { id: { in: request.summaryIds }, userId },
+    select: { id: true, title: true, keyPoints: true, fullSummary: true },
+  });
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  if (byId.size !== request.summaryIds.length) {
+    throw new HttpError(404, "Summary not found", "summary_not_found");
+  }
+  const sources = request.summaryIds.map((id) => byId.get(id)!);
+
+  const reservation = await reserveCredits(userId, compareConfig.cost, "summary_comparison");
+
+  let parsed;
+  try {
+    parsed = await requestJsonComparison(
+      buildComparePrompt(sources, request.language),
+      sources.length,
+      request.providerOptions
+    );
+  } catch (error) {
+    await refundCredits(reservation, "comparison_failed");
+    throw error;
+  }
+
+  const stored: StoredComparison = {
+    commonThemes: parsed.commonThemes,
+    contradictions: parsed.contradictions,
+    unique: parsed.unique.map(({ source, points }) => ({
+      summaryId: sources[source - 1].id,
+      title: sources[source - 1].title,
+      points,
+    })),
+  };
+
+  let entry;
+  try {
+    entry = await prisma.$transaction(async (tx) => {
+      const created = await tx.summary.create({
+        data: {
+          userId,
+          kind: "comparison",
+          // Comparisons have no video of their own
+          videoUrl: "",
+          transcript: "",
+          title: parsed.title,
+          keyPoints: parsed.commonThemes,
+          fullSummary: parsed.fullSummary,
+          language: request.language,
+          comparison: stored as unknown as Prisma.InputJsonObject,
+          sources: {
+            create: sources.map((source, position) => ({ sourceId: source.id, position })),
+          },
+        },
+        omit: { embedding: true },
+        include: comparisonSourcesInclude,
+      });
+      await linkReservation(reservation, created.id, tx);
+      return created;
+    });
+  } catch (error) {
+    await refundCredits(reservation, "comparison_save_failed");
+    throw error;
+  }
+
+  await indexSummaryEmbedding(entry);
+
+  return { summary: serializeSummary(entry), creditsRemaining: reservation.balance };
+};
@@ -0,0 +1,152 @@
+// src/services/credits.ts
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { HttpError } from "../utils/httpError";
+
+// Free credits for a new user, whichever path first creates their row
+export const SIGNUP_CREDITS = 10;
+
+export interface CreditReservation {
+  userId: string;
+  amount: number;
+  transactionId: string;
+  balance: number;
+}
+
+/**
+ * Nested create for the ledger entry that accompanies a new user's free credits
+ * @param amount Number of credits the user starts with
+ * @returns Value for the `creditTransactions` field of `prisma.user.create`
+ */
+export const initialCreditGrant = (
+  amount: number
+): Prisma.CreditTransactionCreateNestedManyWithoutUserInput => ({
+  create: {
+    type: "grant",
+    amount,
+    balanceAfter: amount,
+    reason: "signup_bonus",
+  },
+});
+
+/**
+ * Atomically take credits from a user before doing paid work. The decrement
+ * only applies while the balance covers it, so concurrent requests can never
+ * spend the same credit twice.
+ * @param userId User to charge
+ * @param amount Number of credits to reserve
+ * @param reason Machine-readable reason stored on the ledger entry
+ * @returns Reservation to pass to refundCredits or linkReservation
+ */
+export const reserveCredits = (
+  userId: string,
+  amount: number,
+  reason: string
+): Promise<CreditReservation> =>
+  prisma.$transaction(async (tx) => {
+    const updated = await tx.user.updateMany({
+      where: { id: userId, credits: { gte: amount } },
+      data: { credits: { decrement: amount } },
+    });
+
+    if (updated.count === 0) {
+      const exists = await tx.user.count({ where: { id: userId } });
+      throw exists
+        ? new HttpError(403, "Insufficient credits", "insufficient_credits")
+        : new HttpError(404, "User not found", "user_not_found");
+    }
+
+    const { credits } = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { credits: true },
+    });
+
+    const transaction = await tx.creditTransaction.create({
+      data: {
+        userId,
+        type: "debit",
+        amount: -amount,
+        balanceAfter: credits,
+        reason,
+      },
+    });
+
+    return { userId, amount, transactionId: transaction.id, balance: credits };
+  });
+
+/**
+ * Give back reserved credits after the paid work failed
+ * @param reservation Reservation returned by reserveCredits
+ * @param reason Machine-readable reason stored on the ledger entry
+ * @param amount Credits to return; defaults to the whole reservation
+ */
+export const refundCredits = async (
+  reservation: CreditReservation,
+  reason: string,
+  amount: number = reservation.amount
+): Promise<void> => {
+  if (amount <= 0) return;
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const { credits } = await tx.user.update({
+        where: { id: reservation.userId },
+        data: { credits: { increment: amount } },
+        select: { credits: true },
+      });
+
+      await tx.creditTransaction.create({
+        data: {
+          userId: reservation.userId,
+          type: "refund",
+          amount,
+          balanceAfter: credits,
+          reason,
+        },
+      });
+    });
+  } catch (dbError) {
+    // The debit stays on the ledger, so a failed refund can be fixed by hand
+    console.error(
+      `Failed to refund ${amount} credit(s) for transaction ${reservation.transactionId}:`,
+      dbError
+    );
+  }
+};
+
+/**
+ * Query that links a reservation's ledger entry to the summary it paid for;
+ * meant to run in the same transaction that saves the summary
+ */
+export const linkReservation = (
+  reservation: CreditReservation,
+  summaryId: string,
+  client: Prisma.TransactionClient = prisma
+) =>
+  client.creditTransaction.update({
+    where: { id: reservation.transactionId },
+    data: { summaryId },
+  });
+
+/**
+ * Page through a user's ledger, newest first
+ */
+export const listCreditTransactions = (userId: string, skip: number, take: number) =>
+  Promise.all([
+    prisma.creditTransaction.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      skip,
+      take,
+      select: {
+        id: true,
+        type: true,
+        amount: true,
+        balanceAfter: true,
+        reason: true,
+        summaryId: true,
+        createdAt: true,
+      },
+    }),
+    prisma.creditTransaction.count({ where: { userId } }),
+  ]);
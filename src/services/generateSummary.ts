@@ -1,113 +1,290 @@
 // src/services/generateSummary.ts
-import dotenv from "dotenv";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import crypto from "crypto";
+import prisma from "../config/prismaClient";
+import { chunkingConfig } from "../config/llm";
+import {
+  BadResponseError,
+  complete,
+  completeJson,
+  ProviderOptions,
+  resolveModel,
+  supportsJson,
+} from "./llm";
+import { chunkTranscript, estimateTokens } from "./chunkTranscript";
+import {
+  buildChunkPrompt,
+  buildDigestPrompt,
+  buildMergePrompt,
+  buildRepairPrompt,
+  buildSummaryPrompt,
+  buildTemplatePrompt,
+  PromptOptions,
+} from "./summaryPrompts";
+import {
+  extractJson,
+  parseTextResponse,
+  ParsedSummary,
+  Sentiment,
+  summaryJsonSchema,
+  validateSummaryJson,
+} from "./summaryResponse";
+import { DEFAULT_STYLE_OPTIONS, SummaryOptions } from "./summaryStyles";
+import { mapWithConcurrency } from "../utils/mapWithConcurrency";
+import { HttpError } from "../utils/httpError";
+import {
+  alignToSegments,
+  Chapter,
+  parseSegments,
+  renderTimedTranscript,
+  stripTimestamp,
+  TranscriptSegment,
+} from "./transcriptSegments";
 
-dotenv.config();
-
-// Check for API key and provide helpful error message if missing
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-if (!GEMINI_API_KEY) {
-  console.error("ERROR: Missing GEMINI_API_KEY in environment variables");
+export interface GeneratedSummary {
+  title: string;
+  keyPoints: string[];
+  fullSummary: string;
+  // Only present when the transcript was supplied as timed segments
+  keyPointStarts?: (number | null)[];
+  chapters?: Chapter[];
+  // Only present when the model answered in JSON mode
+  topics?: string[];
+  sentiment?: Sentiment;
 }
 
-// Initialize the Google Generative AI client with better error handling
-let genAI: GoogleGenerativeAI;
-try {
-  genAI = new GoogleGenerativeAI(GEMINI_API_KEY || "");
-} catch (error) {
-  console.error("Failed to initialize Google Generative AI client:", error);
-  // Create a placeholder that will throw a helpful error if used
-  genAI = {
-    getGenerativeModel: () => {
-      throw new Error("Google AI API not properly configured");
-    },
-  } as unknown as GoogleGenerativeAI;
+export interface GenerateOptions extends SummaryOptions {
+  // Body of a user's prompt template, replacing the built-in instructions
+  template?: string;
 }
 
+/**
+ * Tie key points and chapters to start times, aligning untimed key points
+ * against the caption text
+ */
+const attachTimestamps = (
+  keyPoints: string[],
+  chapterLines: string[],
+  segments: TranscriptSegment[]
+): { keyPoints: string[]; keyPointStarts: (number | null)[]; chapters: Chapter[] } => {
+  const timedPoints = keyPoints.map((point) => {
+    const { text, start } = stripTimestamp(point);
+    return { text, start: start ?? alignToSegments(text, segments) };
+  });
+
+  let chapters = chapterLines
+    .map(stripTimestamp)
+    .filter((chapter): chapter is { text: string; start: number } => chapter.start !== null)
+    .map(({ text, start }) => ({ title: text, start }));
+
+  // Fall back to the timed key points when the model produced no chapters
+  if (chapters.length === 0) {
+    chapters = timedPoints
+      .filter((point): point is { text: string; start: number } => point.start !== null)
+      .map(({ text, start }) => ({ title: text, start }));
+  }
+
+  return {
+    keyPoints: timedPoints.map((point) => point.text),
+    keyPointStarts: timedPoints.map((point) => point.start),
+    chapters: chapters.sort((a, b) => a.start - b.start),
+  };
+};
+
+/**
+ * Summarize one chunk, reusing a cached result when the same chunk was
+ * already summarized with the same provider, model and prompt
+ */
+const summarizeChunk = async (prompt: string, options: ProviderOptions): Promise<string> => {
+  const { provider, model } = resolveModel(options);
+  const key = crypto
+    .createHash("sha256")
+    .update(`${provider}\n${model}\n${prompt}`)
+    .digest("hex");
+
+  try {
+    const cached = await prisma.chunkSummary.findUnique({ where: { key } });
+    if (cached) return cached.summary;
+  } catch (dbError) {
+    console.error("Database error reading chunk cache:", dbError);
+  }
+
+  const summary = await complete(prompt, options);
+
+  try {
+    await prisma.chunkSummary.upsert({
+      where: { key },
+      create: { key, summary },
+      update: { summary },
+    });
+  } catch (dbError) {
+    console.error("Database error writing chunk cache:", dbError);
+  }
+
+  return summary;
+};
+
+/**
+ * Map step for transcripts too long for a single prompt
+ * @returns Text summaries of consecutive transcript parts
+ */
+const summarizeParts = async (
+  transcript: string,
+  title: string,
+  timed: boolean,
+  options: ProviderOptions
+): Promise<string[]> => {
+  const chunks = chunkTranscript(
+    transcript,
+    chunkingConfig.chunkTokens,
+    chunkingConfig.overlapTokens
+  );
+
+  return mapWithConcurrency(chunks, chunkingConfig.concurrency, (chunk, index) =>
+    summarizeChunk(buildChunkPrompt(chunk, title, index, chunks.length, timed), options)
+  );
+};
+
+/**
+ * Ask for the final summary as JSON, re-asking once with the validation
+ * errors when the first answer doesn't match the schema
+ */
+const requestJsonSummary = async (
+  prompt: string,
+  timed: boolean,
+  options: ProviderOptions
+): Promise<ParsedSummary> => {
+  const text = await completeJson(prompt, options);
+  const first = validateSummaryJson(extractJson(text), timed);
+  if (first.summary) return first.summary;
+
+  console.warn("Model JSON failed validation, asking for a repair:", first.errors.join("; "));
+  const repaired = await completeJson(
+    buildRepairPrompt(text, first.errors, summaryJsonSchema(timed)),
+    options
+  );
+  const second = validateSummaryJson(extractJson(repaired), timed);
+  if (second.summary) return second.summary;
+
+  throw new BadResponseError(
+    `The model response did not match the summary schema: ${second.errors.join("; ")}`
+  );
+};
+
 /**
  * Generate a summary from a video transcript
- * @param transcript The video transcript text
+ * @param content The video transcript text, or timed caption segments
  * @param metadata Video metadata including title, videoId, etc.
- * @returns Object containing title, key points, and full summary
+ * @param options Optional provider overrides, style options and user template
+ * @param onDelta Optional callback receiving the model output as it streams in
+ * @returns Object containing title, key points, and full summary, plus
+ * key point start times and chapters when segments were supplied, and topics
+ * and sentiment when the provider answered in JSON
  */
 export const generateSummary = async (
-  transcript: string,
-  metadata: any
-): Promise<{
-  title: string;
-  keyPoints: string[];
-  fullSummary: string;
-}> => {
-  if (!transcript || transcript.trim().length === 0) {
-    throw new Error("Empty transcript provided");
+  content: string | TranscriptSegment[],
+  metadata: any,
+  options: GenerateOptions = {},
+  onDelta?: (delta: string) => void
+): Promise<GeneratedSummary> => {
+  const segments = typeof content === "string" ? null : parseSegments(content);
+  const transcript = segments ? renderTimedTranscript(segments) : content;
+
+  if (typeof transcript !== "string" || transcript.trim().length === 0) {
+    throw new HttpError(400, "Empty transcript provided", "empty_transcript");
   }
 
-  // Get title from metadata or use a default
-  const title = metadata?.title || "Video Summary";
-  
-  try {
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.0-flash-thinking-exp-01-21",
-    });
+  const timed = segments !== null;
+  const videoTitle = metadata?.title || "Video Summary";
 
-    // Create a well-structured prompt for better summary quality
-    const prompt = `
-      You're a professional content summarizer specializing in YouTube videos.
-      Summarize the following transcript in a clear, concise, and engaging way.
-      
-      Video Title: "${title}"
-      
-      Transcript:
-      ${transcript}
-      
-      Please provide:
-      1. A list of 3-5 key points from the video (the most important takeaways)
-      2. A concise but comprehensive summary paragraph (250-350 words) that captures the main ideas
-      
-      Format your response exactly as follows:
-      KEY POINTS:
-      - Point 1
-      - Point 2
-      - Point 3
-      ...
-      
-      SUMMARY:
-      Your paragraph summary here...
-    `;
-
-    // Generate content with the model
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    
-    // Parse the response to extract key points and summary
-    const keyPointsMatch = text.match(/KEY POINTS:([\s\S]*?)(?=SUMMARY:|$)/i);
-    const summaryMatch = text.match(/SUMMARY:([\s\S]*?)$/i);
-    
-    // Extract key points as array
-    const keyPointsText = keyPointsMatch ? keyPointsMatch[1].trim() : '';
-    const keyPoints = keyPointsText
-      .split('-')
-      .map(point => point.trim())
-      .filter(point => point.length > 0);
-    
-    // Extract full summary
-    const fullSummary = summaryMatch ? summaryMatch[1].trim() : text;
-    
-    // Return the structured summary data
-    return {
-      title,
-      keyPoints: keyPoints.length > 0 ? keyPoints : ["No key points extracted"],
-      fullSummary: fullSummary || "Summary generation failed. Please try again."
-    };
-  } catch (error) {
-    console.error("Error generating summary:", error);
-    
-    // Return a graceful failure with error details
+  // Streamed output is parsed incrementally from the text layout, so JSON is
+  // only requested for non-streaming calls to providers with a JSON mode
+  const promptOptions: PromptOptions = {
+    timed,
+    format: !onDelta && supportsJson(options) ? "json" : "text",
+    style: {
+      style: options.style || DEFAULT_STYLE_OPTIONS.style,
+      length: options.length || DEFAULT_STYLE_OPTIONS.length,
+      language: options.language || DEFAULT_STYLE_OPTIONS.language,
+    },
+  };
+
+  // Long transcripts are split and summarized part by part first; only the
+  // final pass is streamed. Provider failures propagate as typed errors so
+  // nothing is saved or charged.
+  const source =
+    estimateTokens(transcript) > chunkingConfig.singlePassTokens
+      ? await summarizeParts(transcript, videoTitle, timed, options)
+      : transcript;
+
+  // A user template replaces the built-in instructions
+  const prompt = options.template
+    ? buildTemplatePrompt(options.template, source, metadata, promptOptions)
+    : Array.isArray(source)
+    ? buildMergePrompt(source, videoTitle, promptOptions)
+    : buildSummaryPrompt(source, videoTitle, promptOptions);
+
+  const parsed =
+    promptOptions.format === "json"
+      ? await requestJsonSummary(prompt, timed, options)
+      : parseTextResponse(await complete(prompt, options, onDelta));
+
+  const { keyPoints, chapterLines, fullSummary, topics, sentiment } = parsed;
+
+  if (!fullSummary || keyPoints.length === 0) {
+    throw new BadResponseError("The model response had no key points or summary");
+  }
+
+  // Prefer the real video title over the one the model came up with
+  const title = metadata?.title || parsed.title || videoTitle;
+  const extras = {
+    ...(topics && { topics }),
+    ...(sentiment && { sentiment }),
+  };
+
+  if (segments) {
     return {
       title,
-      keyPoints: ["Summary generation failed"],
-      fullSummary: `Sorry, we couldn't generate a summary for this video. Error: ${error instanceof Error ? error.message : "Unknown error"}`
+      ...attachTimestamps(keyPoints, chapterLines, segments),
+      fullSummary,
+      ...extras,
     };
   }
-};
\ No newline at end of file
+
+  // Return the structured summary data
+  return {
+    title,
+    keyPoints,
+    fullSummary,
+    ...extras,
+  };
+};
+
+/**
+ * Summarize across several already summarized videos, e.g. a playlist
+ * @param summaries Per-video summaries, in order
+ * @param title Name of the collection
+ * @param options Optional provider overrides and style options
+ * @returns Digest key points and summary under the collection title
+ */
+export const generateDigest = async (
+  summaries: { title: string; keyPoints: string[]; fullSummary: string }[],
+  title: string,
+  options: SummaryOptions = {}
+): Promise<GeneratedSummary> => {
+  const { keyPoints, fullSummary } = parseTextResponse(
+    await complete(
+      buildDigestPrompt(summaries, title, {
+        style: options.style || DEFAULT_STYLE_OPTIONS.style,
+        length: options.length || DEFAULT_STYLE_OPTIONS.length,
+        language: options.language || DEFAULT_STYLE_OPTIONS.language,
+      }),
+      options
+    )
+  );
+
+  if (!fullSummary || keyPoints.length === 0) {
+    throw new BadResponseError("The model response had no key points or summary");
+  }
+
+  return { title, keyPoints, fullSummary };
+};
@@ -0,0 +1,387 @@
+// src/services/libraryOrganization.ts
+import { Folder, Prisma, SummaryKind, Tag } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { HttpError } from "../utils/httpError";
+
+export const MAX_TAG_LENGTH = 50;
+const MAX_FOLDER_NAME_LENGTH = 100;
+const MAX_TITLE_LENGTH = 300;
+const MAX_KEY_POINTS = 30;
+const MAX_BULK_IDS = 100;
+const SUMMARY_KINDS: SummaryKind[] = ["video", "comparison"];
+
+// Include for summary queries so serializeSummary can list tag names
+export const summaryTagsInclude = Prisma.validator<Prisma.SummaryInclude>()({
+  tags: { include: { tag: true }, orderBy: { tag: { name: "asc" } } },
+});
+
+export interface LibraryFilters {
+  // null selects summaries that are in no folder
+  folderId?: string | null;
+  tag?: string;
+  favorite?: boolean;
+  kind?: SummaryKind;
+}
+
+export interface SummaryPatch {
+  title?: string;
+  keyPoints?: string[];
+  fullSummary?: string;
+  favorite?: boolean;
+  folderId?: string | null;
+  // Replaces the summary's tags
+  tags?: string[];
+}
+
+export const serializeFolder = (
+  folder: Folder & { _count?: { summaries: number } }
+) => ({
+  id: folder.id,
+  name: folder.name,
+  ...(folder._count && { summaryCount: folder._count.summaries }),
+  createdAt: folder.createdAt,
+  updatedAt: folder.updatedAt,
+});
+
+export const serializeTag = (tag: Tag & { _count?: { summaries: number } }) => ({
+  id: tag.id,
+  name: tag.name,
+  ...(tag._count && { summaryCount: tag._count.summaries }),
+  createdAt: tag.createdAt,
+});
+
+/**
+ * Whether a Prisma error is a unique constraint violation, e.g. a duplicate
+ * folder or tag name
+ */
+export const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+/**
+ * Normalize a tag name: trimmed, lowercase, single spaces
+ * @returns The tag name, or null when empty or too long
+ */
+export const normalizeTagName = (raw: unknown): string | null => {
+  if (typeof raw !== "string") return null;
+  const name = raw.trim().toLowerCase().replace(/\s+/g, " ");
+  return name && name.length <= MAX_TAG_LENGTH ? name : null;
+};
+
+/**
+ * Validate a folder name from a request body
+ * @returns The trimmed name, or an error message for a 400 response
+ */
+export const parseFolderName = (raw: unknown): { name?: string; error?: string } => {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return { error: "name must be a non-empty string" };
+  }
+  if (raw.trim().length > MAX_FOLDER_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_FOLDER_NAME_LENGTH} characters` };
+  }
+  return { name: raw.trim() };
+};
+
+const parseTagNames = (raw: unknown, field: string): { names?: string[]; error?: string } => {
+  if (!Array.isArray(raw)) {
+    return { error: `${field} must be an array of tag names` };
+  }
+  const names = raw.map(normalizeTagName);
+  if (names.some((name) => name === null)) {
+    return { error: `${field} must contain tag names of 1-${MAX_TAG_LENGTH} characters` };
+  }
+  return { names: Array.from(new Set(names as string[])) };
+};
+
+/**
+ * Validate the summary ids of a bulk operation
+ */
+export const parseSummaryIds = (raw: unknown): { ids?: string[]; error?: string } => {
+  if (
+    !Array.isArray(raw) ||
+    raw.length === 0 ||
+    !raw.every((id) => typeof id === "string" && id.length > 0)
+  ) {
+    return { error: "summaryIds must be a non-empty array of summary ids" };
+  }
+  if (raw.length > MAX_BULK_IDS) {
+    return { error: `At most ${MAX_BULK_IDS} summaries can be changed at once` };
+  }
+  return { ids: Array.from(new Set(raw as string[])) };
+};
+
+/**
+ * Parse folder, tag, favorite and kind filters from query parameters
+ * @param query Untrusted `req.query`
+ * @returns The filters, or an error message for a 400 response
+ */
+export const parseLibraryFilters = (
+  query: any
+): { filters: LibraryFilters; error?: string } => {
+  const filters: LibraryFilters = {};
+
+  if (typeof query.folderId === "string" && query.folderId) {
+    filters.folderId = query.folderId === "none" ? null : query.folderId;
+  }
+
+  if (query.tag !== undefined) {
+    const tag = normalizeTagName(query.tag);
+    if (!tag) return { filters, error: "tag must be a tag name" };
+    filters.tag = tag;
+  }
+
+  if (query.favorite !== undefined) {
+    if (query.favorite !== "true" && query.favorite !== "false") {
+      return { filters, error: "favorite must be true or false" };
+    }
+    filters.favorite = query.favorite === "true";
+  }
+
+  if (query.kind !== undefined) {
+    if (!SUMMARY_KINDS.includes(query.kind)) {
+      return { filters, error: `kind must be one of: ${SUMMARY_KINDS.join(", ")}` };
+    }
+    filters.kind = query.kind;
+  }
+
+  return { filters };
+};
+
+/**
+ * Prisma conditions for library filters
+ */
+export const libraryFiltersWhere = (filters: LibraryFilters): Prisma.SummaryWhereInput => ({
+  ...(filters.folderId !== undefined && { folderId: filters.folderId }),
+  ...(filters.tag && { tags: { some: { tag: { name: filters.tag } } } }),
+  ...(filters.favorite !== undefined && { favorite: filters.favorite }),
+  ...(filters.kind && { kind: filters.kind }),
+});
+
+/**
+ * Validate user-edited key points
+ * @returns The trimmed key points, or an error message for a 400 response
+ */
+export const parseKeyPoints = (value: unknown): { keyPoints?: string[]; error?: string } => {
+  if (
+    !Array.isArray(value) ||
+    value.length > MAX_KEY_POINTS ||
+    !value.every((point) => typeof point === "string" && point.trim())
+  ) {
+    return { error: `keyPoints must be an array of up to ${MAX_KEY_POINTS} non-empty strings` };
+  }
+  return { keyPoints: value.map((point: string) => point.trim()) };
+};
+
+/**
+ * Validate a PATCH /summary/:id body
+ * @param body Untrusted request body
+ * @returns The fields to change, or an error message for a 400 response
+ */
+export const parseSummaryPatch = (body: any): { patch?: SummaryPatch; error?: string } => {
+  const { title, keyPoints, fullSummary, favorite, folderId, tags } = body || {};
+  const patch: SummaryPatch = {};
+
+  if (title !== undefined) {
+    if (typeof title !== "string" || !title.trim()) {
+      return { error: "title must be a non-empty string" };
+    }
+    if (title.trim().length > MAX_TITLE_LENGTH) {
+      return { error: `title must be at most ${MAX_TITLE_LENGTH} characters` };
+    }
+    patch.title = title.trim();
+  }
+
+  if (keyPoints !== undefined) {
+    const { keyPoints: parsed, error } = parseKeyPoints(keyPoints);
+    if (!parsed) return { error };
+    patch.keyPoints = parsed;
+  }
+
+  if (fullSummary !== undefined) {
+    if (typeof fullSummary !== "string" || !fullSummary.trim()) {
+      return { error: "fullSummary must be a non-empty string" };
+    }
+    patch.fullSummary = fullSummary.trim();
+  }
+
+  if (favorite !== undefined) {
+    if (typeof favorite !== "boolean") {
+      return { error: "favorite must be a boolean" };
+    }
+    patch.favorite = favorite;
+  }
+
+  if (folderId !== undefined) {
+    if (folderId !== null && (typeof folderId !== "string" || !folderId)) {
+      return { error: "folderId must be a folder id or null" };
+    }
+    patch.folderId = folderId;
+  }
+
+  if (tags !== undefined) {
+    const { names, error } = parseTagNames(tags, "tags");
+    if (error) return { error };
+    patch.tags = names;
+  }
+
+  if (Object.keys(patch).length === 0) {
+    return { error: "Provide at least one field to update" };
+  }
+
+  return { patch };
+};
+
+/**
+ * Parse the add/remove lists of a bulk tag operation
+ */
+export const parseBulkTagChange = (
+  body: any
+): { add?: string[]; remove?: string[]; error?: string } => {
+  const { add = [], remove = [] } = body || {};
+
+  const added = parseTagNames(add, "add");
+  if (added.error) return { error: added.error };
+  const removed = parseTagNames(remove, "remove");
+  if (removed.error) return { error: removed.error };
+
+  if (added.names!.length === 0 && removed.names!.length === 0) {
+    return { error: "Provide tag names to add and/or remove" };
+  }
+  return { add: added.names, remove: removed.names };
+};
+
+/**
+ * Check that a folder belongs to the user
+ * @throws HttpError 404 otherwise
+ */
+const assertFolderOwned = async (
+  client: Prisma.TransactionClient,
+  userId: string,
+  folderId: string
+): Promise<void> => {
+  const folder = await client.folder.findFirst({ where: { id: folderId, userId } });
+  if (!folder) {
+    throw new HttpError(404, "Folder not found", "folder_not_found");
+  }
+};
+
+/**
+ * Find or create the user's tags with the given names. Inserting with
+ * skipDuplicates lets concurrent requests create the same new tag without a
+ * unique constraint error.
+ */
+const upsertTags = async (client: Prisma.TransactionClient, userId: string, names: string[]) => {
+  await client.tag.createMany({
+    data: names.map((name) => ({ userId, name })),
+    skipDuplicates: true,
+  });
+  return client.tag.findMany({ where: { userId, name: { in: names } } });
+};
+
+/**
+ * Apply a validated patch to a library entry
+ * @param userId Owner of the summary
+ * @param id Summary id
+ * @param patch Output of parseSummaryPatch
+ * @returns The updated summary with its tags; edited text clears its
+ * embedding so indexSummaryEmbedding recomputes it
+ * @throws HttpError 404 when the summary or folder doesn't belong to the user
+ */
+export const updateSummary = async (userId: string, id: string, patch: SummaryPatch) => {
+  const { tags, keyPoints, ...fields } = patch;
+  const textChanged =
+    patch.title !== undefined || keyPoints !== undefined || patch.fullSummary !== undefined;
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.summary.findFirst({ where: { id, userId } });
+    if (!existing) {
+      throw new HttpError(404, "Summary not found", "summary_not_found");
+    }
+    if (patch.folderId) {
+      await assertFolderOwned(tx, userId, patch.folderId);
+    }
+
+    if (tags) {
+      const tagRows = await upsertTags(tx, userId, tags);
+      await tx.summaryTag.deleteMany({ where: { summaryId: id } });
+      await tx.summaryTag.createMany({
+        data: tagRows.map((tag) => ({ summaryId: id, tagId: tag.id })),
+      });
+    }
+
+    return tx.summary.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(keyPoints && {
+          keyPoints,
+          // Start times belonged to the generated key points
+          keyPointStarts: Prisma.DbNull,
+        }),
+        // Edited text needs a fresh semantic search vector
+        ...(textChanged && { embeddingModel: null }),
+      },
+      omit: { embedding: true },
+      include: summaryTagsInclude,
+    });
+  });
+};
+
+/**
+ * Add and remove tags on several of the user's summaries at once. Ids that
+ * don't belong to the user are ignored.
+ * @returns Number of summaries changed
+ */
+export const bulkTagSummaries = (
+  userId: string,
+  ids: string[],
+  add: string[],
+  remove: string[]
+): Promise<number> =>
+  prisma.$transaction(async (tx) => {
+    const owned = await tx.summary.findMany({
+      where: { id: { in: ids }, userId },
+      select: { id: true },
+    });
+    const summaryIds = owned.map((summary) => summary.id);
+
+    if (add.length > 0 && summaryIds.length > 0) {
+      const tagRows = await upsertTags(tx, userId, add);
+      await tx.summaryTag.createMany({
+        data: summaryIds.flatMap((summaryId) =>
+          tagRows.map((tag) => ({ summaryId, tagId: tag.id }))
+        ),
+        skipDuplicates: true,
+      });
+    }
+
+    if (remove.length > 0) {
+      await tx.summaryTag.deleteMany({
+        where: { summaryId: { in: summaryIds }, tag: { userId, name: { in: remove } } },
+      });
+    }
+
+    return summaryIds.length;
+  });
+
+/**
+ * Move several of the user's summaries into a folder, or out of any folder
+ * @param folderId Target folder, or null for none
+ * @returns Number of summaries moved
+ * @throws HttpError 404 when the folder doesn't belong to the user
+ */
+export const bulkMoveSummaries = (
+  userId: string,
+  ids: string[],
+  folderId: string | null
+): Promise<number> =>
+  prisma.$transaction(async (tx) => {
+    if (folderId) {
+      await assertFolderOwned(tx, userId, folderId);
+    }
+
+    const { count } = await tx.summary.updateMany({
+      where: { id: { in: ids }, userId },
+      data: { folderId },
+    });
+    return count;
+  });
@@ -0,0 +1,239 @@
+// src/services/librarySearch.ts
+import { Prisma, Summary } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { embeddingModel, embedText } from "./llm";
+import { LibraryFilters, parseLibraryFilters, summaryTagsInclude } from "./libraryOrganization";
+import { serializeSummary, SerializedSummary } from "../utils/serializeSummary";
+
+export type SearchMode = "fulltext" | "semantic";
+
+const SEARCH_MODES: SearchMode[] = ["fulltext", "semantic"];
+
+const MAX_QUERY_LENGTH = 500;
+const MAX_PAGE_SIZE = 50;
+
+export interface LibrarySearch extends LibraryFilters {
+  q: string;
+  mode: SearchMode;
+  from?: Date;
+  to?: Date;
+  channel?: string;
+  page: number;
+  limit: number;
+}
+
+export interface SearchResults {
+  summaries: (SerializedSummary & { score: number })[];
+  total: number;
+  page: number;
+  limit: number;
+  mode: SearchMode;
+}
+
+const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Validate search query parameters
+ * @param query Untrusted `req.query`
+ * @returns The normalized search, or an error message for a 400 response
+ */
+export const parseSearchQuery = (query: any): { search?: LibrarySearch; error?: string } => {
+  const q = typeof query.q === "string" ? query.q.trim() : "";
+  if (!q) {
+    return { error: "q is required" };
+  }
+  if (q.length > MAX_QUERY_LENGTH) {
+    return { error: `q must be at most ${MAX_QUERY_LENGTH} characters` };
+  }
+
+  const mode = (query.mode || "fulltext") as SearchMode;
+  if (!SEARCH_MODES.includes(mode)) {
+    return { error: `Unknown mode. Expected one of: ${SEARCH_MODES.join(", ")}` };
+  }
+  if (mode === "semantic" && !embeddingModel()) {
+    return { error: "Semantic search is not enabled on this server" };
+  }
+
+  const from = parseDate(query.from);
+  const to = parseDate(query.to);
+  if (from === null || to === null) {
+    return { error: "from and to must be ISO 8601 dates" };
+  }
+
+  const { filters, error } = parseLibraryFilters(query);
+  if (error) {
+    return { error };
+  }
+
+  const page = Math.max(parseInt(query.page as string) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(query.limit as string) || 10, 1), MAX_PAGE_SIZE);
+  const channel = typeof query.channel === "string" && query.channel.trim();
+
+  return {
+    search: {
+      q,
+      mode,
+      ...(from && { from }),
+      ...(to && { to }),
+      ...(channel && { channel }),
+      ...filters,
+      page,
+      limit,
+    },
+  };
+};
+
+/**
+ * WHERE conditions shared by both search modes; mirrors libraryFiltersWhere
+ */
+const filterSql = (userId: string, search: LibrarySearch): Prisma.Sql => {
+  const conditions = [Prisma.sql`"userId" = ${userId}`];
+
+  if (search.from) conditions.push(Prisma.sql`"createdAt" >= ${search.from}`);
+  if (search.to) conditions.push(Prisma.sql`"createdAt" <= ${search.to}`);
+  if (search.channel) {
+    // The extension has sent the channel under a few different keys
+    conditions.push(Prisma.sql`lower(coalesce(
+      "metadata"->>'channel', "metadata"->>'channelName', "metadata"->>'author'
+    )) = lower(${search.channel})`);
+  }
+  if (search.folderId === null) conditions.push(Prisma.sql`"folderId" IS NULL`);
+  if (search.folderId) conditions.push(Prisma.sql`"folderId" = ${search.folderId}`);
+  if (search.favorite !== undefined) conditions.push(Prisma.sql`"favorite" = ${search.favorite}`);
+  if (search.kind) conditions.push(Prisma.sql`"kind" = ${search.kind}::"SummaryKind"`);
+  if (search.tag) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "SummaryTag" st JOIN "Tag" t ON t."id" = st."tagId"
+      WHERE st."summaryId" = "Summary"."id" AND t."name" = ${search.tag}
+    )`);
+  }
+
+  return Prisma.join(conditions, " AND ");
+};
+
+/**
+ * Rank by Postgres full-text match over title, key points, summary and
+ * transcript (weighted in that order)
+ */
+const fullTextSearch = async (
+  userId: string,
+  search: LibrarySearch
+): Promise<{ ranked: { id: string; score: number }[]; total: number }> => {
+  const where = filterSql(userId, search);
+  const query = Prisma.sql`websearch_to_tsquery('simple', ${search.q})`;
+
+  const [ranked, [{ count }]] = await Promise.all([
+    prisma.$queryRaw<{ id: string; score: number }[]>`
+      SELECT "id", ts_rank("searchVector", ${query}) AS "score"
+      FROM "Summary"
+      WHERE ${where} AND "searchVector" @@ ${query}
+      ORDER BY "score" DESC, "createdAt" DESC
+      LIMIT ${search.limit} OFFSET ${(search.page - 1) * search.limit}
+    `,
+    prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) AS "count"
+      FROM "Summary"
+      WHERE ${where} AND "searchVector" @@ ${query}
+    `,
+  ]);
+
+  return { ranked, total: Number(count) };
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Rank by embedding similarity to the query. Only entries embedded with the
+ * current model are compared.
+ */
+const semanticSearch = async (
+  userId: string,
+  search: LibrarySearch
+): Promise<{ ranked: { id: string; score: number }[]; total: number }> => {
+  const { vector, model } = await embedText(search.q);
+
+  const candidates = await prisma.$queryRaw<{ id: string; embedding: number[] }[]>`
+    SELECT "id", "embedding"
+    FROM "Summary"
+    WHERE ${filterSql(userId, search)} AND "embeddingModel" = ${model}
+  `;
+
+  const scored = candidates
+    .map(({ id, embedding }) => ({ id, score: cosineSimilarity(vector, embedding) }))
+    .sort((a, b) => b.score - a.score);
+  const skip = (search.page - 1) * search.limit;
+
+  return { ranked: scored.slice(skip, skip + search.limit), total: scored.length };
+};
+
+/**
+ * Search a user's library
+ * @param userId Library owner
+ * @param search Validated search parameters
+ * @returns One page of matching summaries, best match first
+ */
+export const searchLibrary = async (
+  userId: string,
+  search: LibrarySearch
+): Promise<SearchResults> => {
+  const { ranked, total } =
+    search.mode === "semantic"
+      ? await semanticSearch(userId, search)
+      : await fullTextSearch(userId, search);
+
+  const rows = await prisma.summary.findMany({
+    where: { id: { in: ranked.map((match) => match.id) } },
+    omit: { embedding: true },
+    include: summaryTagsInclude,
+  });
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  return {
+    summaries: ranked
+      .filter((match) => byId.has(match.id))
+      .map((match) => ({ ...serializeSummary(byId.get(match.id)!), score: match.score })),
+    total,
+    page: search.page,
+    limit: search.limit,
+    mode: search.mode,
+  };
+};
+
+/**
+ * Compute the semantic search vector for a library entry. Failures are
+ * logged and leave the entry findable by full-text search only.
+ * @param summary Saved entry; skipped when already embedded with the current model
+ */
+export const indexSummaryEmbedding = async (
+  summary: Pick<Summary, "id" | "title" | "keyPoints" | "fullSummary" | "embeddingModel">
+): Promise<void> => {
+  const current = embeddingModel();
+  if (!current || summary.embeddingModel === current) return;
+
+  try {
+    const { vector, model } = await embedText(
+      [summary.title, ...summary.keyPoints, summary.fullSummary].join("\n")
+    );
+    await prisma.summary.update({
+      where: { id: summary.id },
+      data: { embedding: vector, embeddingModel: model },
+    });
+  } catch (error) {
+    console.error(`Failed to embed summary ${summary.id}:`, error);
+  }
+};
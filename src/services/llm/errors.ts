@@ -0,0 +1,102 @@
+// src/services/llm/errors.ts
+import { HttpError } from "../../utils/httpError";
+
+export type ProviderErrorCode =
+  | "rate_limited"
+  | "quota_exceeded"
+  | "safety_blocked"
+  | "provider_timeout"
+  | "bad_response"
+  | "provider_unavailable";
+
+/**
+ * Base class for failures of a model call. `retryable` marks transient errors
+ * that may succeed if the same request is sent again later.
+ */
+export class ProviderError extends HttpError {
+  code: ProviderErrorCode;
+  retryable: boolean;
+  retryAfterMs?: number;
+
+  constructor(
+    status: number,
+    code: ProviderErrorCode,
+    message: string,
+    retryable: boolean,
+    retryAfterMs?: number
+  ) {
+    super(status, message, code);
+    this.name = "ProviderError";
+    this.code = code;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class RateLimitedError extends ProviderError {
+  constructor(message = "The model provider is rate limiting requests", retryAfterMs?: number) {
+    super(429, "rate_limited", message, true, retryAfterMs);
+    this.name = "RateLimitedError";
+  }
+}
+
+export class QuotaExceededError extends ProviderError {
+  constructor(message = "The model provider quota has been exhausted") {
+    super(503, "quota_exceeded", message, false);
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class SafetyBlockedError extends ProviderError {
+  constructor(message = "The model refused this content for safety reasons") {
+    super(422, "safety_blocked", message, false);
+    this.name = "SafetyBlockedError";
+  }
+}
+
+export class ProviderTimeoutError extends ProviderError {
+  constructor(message = "The model provider did not respond in time") {
+    super(504, "provider_timeout", message, true);
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+export class BadResponseError extends ProviderError {
+  constructor(message = "The model returned a response in an unexpected format") {
+    super(502, "bad_response", message, true);
+    this.name = "BadResponseError";
+  }
+}
+
+export class ProviderUnavailableError extends ProviderError {
+  constructor(message = "The model provider is unavailable") {
+    super(503, "provider_unavailable", message, true);
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+/**
+ * Map an HTTP status returned by a provider API to a typed error
+ * @param status Status code of the provider response
+ * @param message Error message from the provider
+ * @param quotaExhausted Whether the provider said the account is out of quota
+ * @param retryAfterMs Delay requested by the provider, if any
+ */
+export const errorFromStatus = (
+  status: number | undefined,
+  message: string,
+  quotaExhausted = false,
+  retryAfterMs?: number
+): ProviderError => {
+  if (status === 429) {
+    return quotaExhausted
+      ? new QuotaExceededError(message)
+      : new RateLimitedError(message, retryAfterMs);
+  }
+  if (status === 408 || status === 504) return new ProviderTimeoutError(message);
+  if (status === 402) return new QuotaExceededError(message);
+  if (status !== undefined && status >= 500) return new ProviderUnavailableError(message);
+
+  // Remaining 4xx mean our request was wrong; retrying won't help
+  return new ProviderError(502, "provider_unavailable", message, false);
+};
@@ -0,0 +1,142 @@
+// src/services/llm/fakeProvider.ts
+import { CompletionRequest, LLMProvider } from "./types";
+
+// Prompts fence their source material in triple quotes; see summaryPrompts.ts
+const SOURCE_BLOCK = /"""([\s\S]*?)"""/;
+
+// Section labels and bullets from earlier model output (e.g. merge prompts)
+const STRUCTURE_MARKERS = /^\s*(?:Part \d+:|KEY POINTS:|SUMMARY:|-\s+)/gim;
+
+const splitSentences = (text: string): string[] => {
+  const flattened = text.replace(STRUCTURE_MARKERS, "").replace(/\s+/g, " ");
+  const sentences = (flattened.match(/[^.!?]+[.!?]*/g) || [])
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+
+  return Array.from(new Set(sentences));
+};
+
+const TIMESTAMP = /\[(?:\d+:)?\d{1,2}:\d{2}\]\s*/g;
+
+// Evenly sample up to five timestamped source lines as chapter markers
+const buildChapters = (source: string): string[] => {
+  const lines = source
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => /^\[(?:\d+:)?\d{1,2}:\d{2}\]/.test(line));
+  const step = Math.max(1, Math.ceil(lines.length / 5));
+
+  return lines
+    .filter((_, index) => index % step === 0)
+    .map((line) => {
+      const [stamp] = line.match(/^\[[^\]]+\]/)!;
+      return `- ${stamp} ${truncateWords(line.slice(stamp.length).trim(), 6)}`;
+    });
+};
+
+const truncateWords = (text: string, maxWords: number): string => {
+  const words = text.split(/\s+/).filter(Boolean);
+  return words.length > maxWords
+    ? `${words.slice(0, maxWords).join(" ")}...`
+    : words.join(" ");
+};
+
+// Most frequent longer words of the source, as a stand-in for topics
+const pickTopics = (text: string): string[] => {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z]{6,}/g) || []) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([word]) => word);
+};
+
+const EMBEDDING_DIMENSIONS = 256;
+
+// 32-bit FNV-1a, used to hash words into embedding buckets
+const hashWord = (word: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Offline provider that never calls the network. It answers in the same
+ * KEY POINTS / CHAPTERS / SUMMARY layout (or JSON object) the real models are
+ * asked for, built from the leading sentences of the fenced source text, so
+ * identical prompts always produce identical output.
+ */
+export const fakeProvider: LLMProvider = {
+  name: "fake",
+  defaultModel: "fake-summarizer-v1",
+  supportsJson: true,
+  defaultEmbeddingModel: "fake-embedding-v1",
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const match = request.prompt.match(SOURCE_BLOCK);
+    const source = (match ? match[1] : request.prompt).trim();
+    const sentences = splitSentences(source);
+
+    const keyPoints = sentences.slice(0, 5).map((sentence) => truncateWords(sentence, 20));
+    const summary = truncateWords(sentences.join(" ").replace(TIMESTAMP, ""), 120);
+    const wantsChapters = request.json
+      ? request.prompt.includes('"chapters"')
+      : request.prompt.includes("CHAPTERS:");
+    const chapters = wantsChapters ? buildChapters(source) : [];
+
+    // Comparison prompts (buildComparePrompt) ask for a different object
+    if (request.prompt.includes('"commonThemes"')) {
+      return JSON.stringify({
+        title: `Comparison: ${truncateWords((sentences[0] || "videos").replace(/^Video 1:\s*/, ""), 6)}`,
+        commonThemes: pickTopics(source),
+        contradictions: [],
+        unique: [{ source: 1, points: keyPoints.slice(0, 2) }],
+        fullSummary: summary || "No content provided",
+      });
+    }
+
+    if (request.json) {
+      return JSON.stringify({
+        title: truncateWords((sentences[0] || "Untitled video").replace(TIMESTAMP, ""), 8),
+        keyPoints: keyPoints.length > 0 ? keyPoints : ["No content provided"],
+        fullSummary: summary || "No content provided",
+        ...(wantsChapters && { chapters: chapters.map((line) => line.replace(/^-\s*/, "")) }),
+        topics: pickTopics(source.replace(TIMESTAMP, "")),
+        sentiment: "neutral",
+      });
+    }
+
+    return [
+      "KEY POINTS:",
+      ...(keyPoints.length > 0 ? keyPoints : ["No content provided"]).map((point) => `- ${point}`),
+      "",
+      ...(chapters.length > 0 ? ["CHAPTERS:", ...chapters, ""] : []),
+      "SUMMARY:",
+      summary || "No content provided",
+    ].join("\n");
+  },
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const text = await this.complete(request);
+    for (const piece of text.match(/\S+\s*/g) || []) {
+      yield piece;
+    }
+  },
+
+  // Bag-of-words feature hashing: texts sharing words get similar vectors
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]{3,}/g) || []) {
+      const hash = hashWord(word);
+      vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  },
+};
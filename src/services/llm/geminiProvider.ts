@@ -0,0 +1,127 @@
+// src/services/llm/geminiProvider.ts
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from "@google/generative-ai";
+import { llmConfig } from "../../config/llm";
+import {
+  BadResponseError,
+  errorFromStatus,
+  ProviderError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+  SafetyBlockedError,
+} from "./errors";
+import { CompletionRequest, LLMProvider } from "./types";
+
+// Check for API key and provide helpful error message if missing
+if (llmConfig.provider === "gemini" && !llmConfig.gemini.apiKey) {
+  console.error("ERROR: Missing GEMINI_API_KEY in environment variables");
+}
+
+// Initialize the Google Generative AI client with better error handling
+let genAI: GoogleGenerativeAI;
+try {
+  genAI = new GoogleGenerativeAI(llmConfig.gemini.apiKey);
+} catch (error) {
+  console.error("Failed to initialize Google Generative AI client:", error);
+  // Create a placeholder that will throw a helpful error if used
+  genAI = {
+    getGenerativeModel: () => {
+      throw new ProviderUnavailableError("Google AI API not properly configured");
+    },
+  } as unknown as GoogleGenerativeAI;
+}
+
+// Translate SDK errors into typed provider errors
+const toProviderError = (error: unknown): unknown => {
+  if (error instanceof ProviderError) return error;
+
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    // Gemini answers 429 both for bursts and for an exhausted (billing) quota
+    const quotaExhausted = /exceeded your current quota|billing/i.test(error.message);
+    return errorFromStatus(error.status, error.message, quotaExhausted);
+  }
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return /SAFETY|PROHIBITED|BLOCKLIST|SPII|RECITATION|blocked/i.test(error.message)
+      ? new SafetyBlockedError(error.message)
+      : new BadResponseError(error.message);
+  }
+  if (error instanceof GoogleGenerativeAIAbortError) {
+    return new ProviderTimeoutError(error.message);
+  }
+  if (error instanceof GoogleGenerativeAIError) {
+    return new ProviderUnavailableError(error.message);
+  }
+  return error;
+};
+
+const getModel = (request: CompletionRequest, defaultModel: string) =>
+  genAI.getGenerativeModel(
+    {
+      model: request.model || defaultModel,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        ...(request.json && { responseMimeType: "application/json" }),
+      },
+    },
+    { timeout: llmConfig.timeoutMs }
+  );
+
+export const geminiProvider: LLMProvider = {
+  name: "gemini",
+  defaultModel: llmConfig.gemini.defaultModel,
+  supportsJson: true,
+  defaultEmbeddingModel: llmConfig.gemini.embeddingModel,
+
+  async complete(request: CompletionRequest): Promise<string> {
+    try {
+      const model = getModel(request, this.defaultModel);
+
+      const result = await model.generateContent(request.prompt);
+      const response = await result.response;
+      const text = response.text();
+
+      if (!text.trim()) {
+        throw new BadResponseError("Gemini returned an empty response");
+      }
+      return text;
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  },
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    try {
+      const model = getModel(request, this.defaultModel);
+
+      const result = await model.generateContentStream(request.prompt);
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  },
+
+  async embed(text: string, model: string): Promise<number[]> {
+    try {
+      const result = await genAI
+        .getGenerativeModel({ model }, { timeout: llmConfig.timeoutMs })
+        .embedContent(text);
+
+      const values = result.embedding?.values;
+      if (!values || values.length === 0) {
+        throw new BadResponseError("Gemini returned an empty embedding");
+      }
+      return values;
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  },
+};
@@ -0,0 +1,279 @@
+// src/services/llm/index.ts
+import { embeddingConfig, llmConfig, ProviderName, PROVIDER_NAMES } from "../../config/llm";
+import { ProviderError, ProviderUnavailableError } from "./errors";
+import { fakeProvider } from "./fakeProvider";
+import { geminiProvider } from "./geminiProvider";
+import { openaiProvider } from "./openaiProvider";
+import { CompletionRequest, LLMProvider, ProviderOptions } from "./types";
+
+export * from "./types";
+export * from "./errors";
+
+const providers: Record<ProviderName, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  fake: fakeProvider,
+};
+
+export const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === "string" && PROVIDER_NAMES.includes(value as ProviderName);
+
+/**
+ * Resolve the provider for a request, falling back to the environment default
+ * @param name Optional provider requested by the caller
+ * @returns The matching provider implementation
+ */
+export const getProvider = (name?: ProviderName): LLMProvider =>
+  providers[name || llmConfig.provider];
+
+/**
+ * Work out which provider and model a request will actually use
+ * @param options Optional per-request overrides
+ * @returns Provider name and model id
+ */
+export const resolveModel = (
+  options: ProviderOptions = {}
+): { provider: ProviderName; model: string } => {
+  const provider = getProvider(options.provider);
+  return {
+    provider: provider.name,
+    // LLM_MODEL only applies to the environment's default provider
+    model:
+      options.model ||
+      (provider.name === llmConfig.provider ? llmConfig.model : undefined) ||
+      provider.defaultModel,
+  };
+};
+
+/**
+ * Run a prompt through the configured provider, merging per-request
+ * overrides with the environment defaults
+ * @param prompt Prompt text to send
+ * @param options Optional provider, model, temperature and token limit overrides
+ * @param onDelta Optional callback; when given the output is streamed to it
+ * @returns Raw model output
+ */
+export const complete = (
+  prompt: string,
+  options: ProviderOptions = {},
+  onDelta?: (delta: string) => void
+): Promise<string> => {
+  const provider = getProvider(options.provider);
+  const request = buildRequest(prompt, options);
+
+  if (!onDelta) {
+    return withRetry(() => provider.complete(request));
+  }
+
+  // Once part of a stream has been forwarded it can't be taken back, so only
+  // failures before the first delta are retried
+  let started = false;
+  return withRetry(
+    () =>
+      streamCompletion(provider, request, (delta) => {
+        started = true;
+        onDelta(delta);
+      }),
+    () => !started
+  );
+};
+
+/**
+ * Whether the provider a request resolves to can be constrained to JSON output
+ * @param options Optional per-request overrides
+ */
+export const supportsJson = (options: ProviderOptions = {}): boolean =>
+  getProvider(options.provider).supportsJson;
+
+/**
+ * Run a prompt in the provider's JSON mode. The output is still raw text and
+ * must be parsed and validated by the caller.
+ * @param prompt Prompt text describing the expected JSON object
+ * @param options Optional provider, model, temperature and token limit overrides
+ * @returns Raw model output
+ */
+export const completeJson = (prompt: string, options: ProviderOptions = {}): Promise<string> => {
+  const provider = getProvider(options.provider);
+  const request = { ...buildRequest(prompt, options), json: provider.supportsJson };
+  return withRetry(() => provider.complete(request));
+};
+
+const resolveEmbedding = (): { provider: LLMProvider; model: string } | null => {
+  if (!embeddingConfig.provider) return null;
+  const provider = getProvider(embeddingConfig.provider);
+  if (!provider.embed || !provider.defaultEmbeddingModel) return null;
+  return { provider, model: embeddingConfig.model || provider.defaultEmbeddingModel };
+};
+
+/**
+ * Identify the embedding model in use, so vectors from different models are
+ * never compared
+ * @returns "provider:model", or null when semantic search is disabled
+ */
+export const embeddingModel = (): string | null => {
+  const embedding = resolveEmbedding();
+  return embedding && `${embedding.provider.name}:${embedding.model}`;
+};
+
+/**
+ * Embed text with the configured embedding provider
+ * @param text Text to embed
+ * @returns The vector and the model id from embeddingModel()
+ * @throws ProviderUnavailableError when semantic search is disabled
+ */
+export const embedText = async (text: string): Promise<{ vector: number[]; model: string }> => {
+  const embedding = resolveEmbedding();
+  if (!embedding) {
+    throw new ProviderUnavailableError("No embedding provider is configured");
+  }
+
+  const { provider, model } = embedding;
+  const vector = await withRetry(() => provider.embed!(text, model));
+  return { vector, model: `${provider.name}:${model}` };
+};
+
+// Merge per-request overrides with the environment defaults
+const buildRequest = (prompt: string, options: ProviderOptions): CompletionRequest => ({
+  prompt,
+  model: resolveModel(options).model,
+  temperature: options.temperature ?? llmConfig.temperature,
+  maxOutputTokens: options.maxOutputTokens ?? llmConfig.maxOutputTokens,
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Retry transient provider errors with exponential backoff and jitter,
+ * honoring any Retry-After the provider sent
+ */
+const withRetry = async <T>(
+  operation: () => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        !(error instanceof ProviderError) ||
+        !error.retryable ||
+        attempt >= llmConfig.maxRetries ||
+        !canRetry()
+      ) {
+        throw error;
+      }
+
+      const backoff = llmConfig.retryBaseMs * 2 ** attempt;
+      const delay = Math.max(error.retryAfterMs ?? 0, backoff + Math.random() * backoff * 0.2);
+      console.warn(
+        `Provider error (${error.code}), retrying in ${Math.round(delay)}ms:`,
+        error.message
+      );
+      await sleep(delay);
+    }
+  }
+};
+
+// Providers without native streaming deliver their whole answer as one delta
+const streamCompletion = async (
+  provider: LLMProvider,
+  request: CompletionRequest,
+  onDelta: (delta: string) => void
+): Promise<string> => {
+  if (!provider.stream) {
+    const text = await provider.complete(request);
+    onDelta(text);
+    return text;
+  }
+
+  let text = "";
+  for await (const delta of provider.stream(request)) {
+    text += delta;
+    onDelta(delta);
+  }
+  return text;
+};
+
+/**
+ * Models a caller may request from a provider: its default, LLM_MODEL for
+ * the environment's default provider, and the configured allowlist
+ */
+const allowedModels = (name: ProviderName): string[] => {
+  const provider = getProvider(name);
+  const extra =
+    name === "gemini"
+      ? llmConfig.gemini.allowedModels
+      : name === "openai"
+        ? llmConfig.openai.allowedModels
+        : [];
+  return [
+    provider.defaultModel,
+    ...(name === llmConfig.provider && llmConfig.model ? [llmConfig.model] : []),
+    ...extra,
+  ];
+};
+
+/**
+ * Validate provider overrides supplied in a request body. Models must be
+ * allowlisted, token limits can't exceed the configured maximum, and the
+ * fake provider is refused in production.
+ * @param raw Untrusted `options` object from the request
+ * @returns The sanitized options, or an error message for a 400 response
+ */
+export const parseProviderOptions = (
+  raw: any
+): { options: ProviderOptions; error?: string } => {
+  if (raw === undefined || raw === null) return { options: {} };
+  if (typeof raw !== "object") return { options: {}, error: "options must be an object" };
+
+  const options: ProviderOptions = {};
+
+  if (raw.provider !== undefined) {
+    if (!isProviderName(raw.provider)) {
+      return {
+        options,
+        error: `Unknown provider. Expected one of: ${PROVIDER_NAMES.join(", ")}`,
+      };
+    }
+    // Its canned output would otherwise land in the shared summary cache
+    if (raw.provider === "fake" && process.env.NODE_ENV === "production") {
+      return { options, error: 'The "fake" provider is not available in production' };
+    }
+    options.provider = raw.provider;
+  }
+
+  if (raw.model !== undefined) {
+    if (typeof raw.model !== "string" || !raw.model.trim()) {
+      return { options, error: "options.model must be a non-empty string" };
+    }
+    const allowed = allowedModels(options.provider || llmConfig.provider);
+    if (!allowed.includes(raw.model.trim())) {
+      return { options, error: `options.model must be one of: ${allowed.join(", ")}` };
+    }
+    options.model = raw.model.trim();
+  }
+
+  if (raw.temperature !== undefined) {
+    if (typeof raw.temperature !== "number" || raw.temperature < 0 || raw.temperature > 2) {
+      return { options, error: "options.temperature must be a number between 0 and 2" };
+    }
+    options.temperature = raw.temperature;
+  }
+
+  if (raw.maxOutputTokens !== undefined) {
+    const cap = llmConfig.maxOutputTokens ?? llmConfig.maxOutputTokensCap;
+    if (
+      !Number.isInteger(raw.maxOutputTokens) ||
+      raw.maxOutputTokens < 1 ||
+      raw.maxOutputTokens > cap
+    ) {
+      return {
+        options,
+        error: `options.maxOutputTokens must be an integer between 1 and ${cap}`,
+      };
+    }
+    options.maxOutputTokens = raw.maxOutputTokens;
+  }
+
+  return { options };
+};
@@ -0,0 +1,217 @@
+// src/services/llm/openaiProvider.ts
+import { llmConfig } from "../../config/llm";
+import {
+  BadResponseError,
+  errorFromStatus,
+  ProviderError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+  SafetyBlockedError,
+} from "./errors";
+import { CompletionRequest, LLMProvider } from "./types";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null }; finish_reason?: string }[];
+  error?: { message?: string; code?: string; type?: string };
+}
+
+interface EmbeddingResponse {
+  data?: { embedding?: number[] }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+// Translate fetch failures into typed provider errors
+const toProviderError = (error: unknown): unknown => {
+  if (error instanceof ProviderError) return error;
+  if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return new ProviderTimeoutError();
+  }
+  if (error instanceof TypeError) {
+    // fetch() rejects with a TypeError on DNS, connection and TLS failures
+    return new ProviderUnavailableError(`OpenAI-compatible endpoint unreachable: ${error.message}`);
+  }
+  return error;
+};
+
+/**
+ * POST a JSON payload, throwing typed errors for non-2xx responses
+ * @param signal Aborts the request; defaults to the configured timeout for
+ * the whole request, response body included
+ */
+const postJson = async (
+  path: string,
+  payload: unknown,
+  signal: AbortSignal = AbortSignal.timeout(llmConfig.timeoutMs)
+): Promise<Response> => {
+  const baseUrl = llmConfig.openai.baseUrl.replace(/\/+$/, "");
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(llmConfig.openai.apiKey
+        ? { Authorization: `Bearer ${llmConfig.openai.apiKey}` }
+        : {}),
+    },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as ChatCompletionResponse;
+    const retryAfter = Number(response.headers.get("retry-after"));
+
+    throw errorFromStatus(
+      response.status,
+      `OpenAI-compatible request failed (${response.status}): ${
+        body.error?.message || response.statusText
+      }`,
+      body.error?.code === "insufficient_quota",
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+    );
+  }
+
+  return response;
+};
+
+const postChatCompletion = (
+  request: CompletionRequest,
+  defaultModel: string,
+  stream: boolean,
+  signal?: AbortSignal
+): Promise<Response> =>
+  postJson(
+    "/chat/completions",
+    {
+      model: request.model || defaultModel,
+      messages: [{ role: "user", content: request.prompt }],
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+      ...(request.json && { response_format: { type: "json_object" } }),
+      stream,
+    },
+    signal
+  );
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions protocol
+ * (OpenAI itself, Azure-style proxies, vLLM, Ollama, LM Studio, ...)
+ */
+export const openaiProvider: LLMProvider = {
+  name: "openai",
+  defaultModel: llmConfig.openai.defaultModel,
+  supportsJson: llmConfig.openai.jsonMode,
+  defaultEmbeddingModel: llmConfig.openai.embeddingModel,
+
+  async complete(request: CompletionRequest): Promise<string> {
+    try {
+      const response = await postChatCompletion(request, this.defaultModel, false);
+      const body = (await response.json().catch(() => {
+        throw new BadResponseError("OpenAI-compatible response was not valid JSON");
+      })) as ChatCompletionResponse;
+
+      const choice = body.choices?.[0];
+      if (choice?.finish_reason === "content_filter") {
+        throw new SafetyBlockedError();
+      }
+
+      const text = choice?.message?.content;
+      if (typeof text !== "string" || !text.trim()) {
+        throw new BadResponseError("OpenAI-compatible response contained no message content");
+      }
+
+      return text;
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  },
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    // Streams may run longer than the timeout, so it only limits the wait
+    // for the response headers and for each next chunk
+    const controller = new AbortController();
+    let idleTimer: NodeJS.Timeout | undefined;
+    const restartIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => controller.abort(), llmConfig.timeoutMs);
+    };
+
+    let response: Response;
+    try {
+      restartIdleTimer();
+      response = await postChatCompletion(request, this.defaultModel, true, controller.signal);
+    } catch (error) {
+      clearTimeout(idleTimer);
+      throw toProviderError(error);
+    }
+    if (!response.body) {
+      clearTimeout(idleTimer);
+      throw new BadResponseError("OpenAI-compatible response has no body to stream");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        restartIdleTimer();
+        const { done, value } = await reader.read();
+        clearTimeout(idleTimer);
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Server-sent events are separated by newlines; keep any partial line
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, "").trim();
+          if (!line.startsWith("data:") || !data) continue;
+          if (data === "[DONE]") return;
+
+          let chunk: ChatCompletionChunk;
+          try {
+            chunk = JSON.parse(data) as ChatCompletionChunk;
+          } catch {
+            throw new BadResponseError("OpenAI-compatible stream sent malformed JSON");
+          }
+
+          const choice = chunk.choices?.[0];
+          if (choice?.finish_reason === "content_filter") {
+            throw new SafetyBlockedError();
+          }
+          const text = choice?.delta?.content;
+          if (text) yield text;
+        }
+      }
+    } catch (error) {
+      throw toProviderError(error);
+    } finally {
+      clearTimeout(idleTimer);
+      // Stop downloading the rest of the body after [DONE], an error or an
+      // early return by the consumer
+      await reader.cancel().catch(() => undefined);
+    }
+  },
+
+  async embed(text: string, model: string): Promise<number[]> {
+    try {
+      const response = await postJson("/embeddings", { model, input: text });
+      const body = (await response.json().catch(() => {
+        throw new BadResponseError("OpenAI-compatible response was not valid JSON");
+      })) as EmbeddingResponse;
+
+      const vector = body.data?.[0]?.embedding;
+      if (!Array.isArray(vector) || vector.length === 0) {
+        throw new BadResponseError("OpenAI-compatible response contained no embedding");
+      }
+      return vector;
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  },
+};
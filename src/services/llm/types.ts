@@ -0,0 +1,40 @@
+// src/services/llm/types.ts
+import { ProviderName } from "../../config/llm";
+
+export interface CompletionRequest {
+  prompt: string;
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Ask for a bare JSON object; only sent to providers with supportsJson
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  defaultModel: string;
+  // Whether the provider can be constrained to JSON output
+  supportsJson: boolean;
+  /**
+   * Run a single prompt and return the raw text produced by the model
+   */
+  complete(request: CompletionRequest): Promise<string>;
+  /**
+   * Run a single prompt and yield text fragments as the model produces them
+   */
+  stream?(request: CompletionRequest): AsyncIterable<string>;
+  // Model used by embed() unless EMBEDDING_MODEL overrides it
+  defaultEmbeddingModel?: string;
+  /**
+   * Turn text into a vector for semantic search
+   */
+  embed?(text: string, model: string): Promise<number[]>;
+}
+
+// Per-request overrides accepted by the summary pipeline
+export interface ProviderOptions {
+  provider?: ProviderName;
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
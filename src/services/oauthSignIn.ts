@@ -0,0 +1,289 @@
+// src/services/oauthSignIn.ts
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import { Session, User as SupabaseUser } from "@supabase/supabase-js";
+import prisma from "../config/prismaClient";
+import { oauthConfig } from "../config/auth";
+import { serializeSession, SessionTokens, SessionUser, syncSessionUser } from "./authSessions";
+import { HttpError } from "../utils/httpError";
+
+const supabaseUrl = (process.env.SUPABASE_URL || "").replace(/\/+$/, "");
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+
+export type OAuthSession = SessionTokens & { user: SessionUser };
+
+export interface OAuthStart {
+  flowId: string;
+  authorizeUrl: string;
+  // Secret the extension polls with; only for flows without a redirect
+  pollToken: string | null;
+  // Secret for the flow cookie binding a polling flow to the starting browser
+  browserKey: string | null;
+  expiresAt: Date;
+}
+
+export type OAuthClaim = { status: "pending" } | { status: "completed"; session: OAuthSession };
+
+// Reply of Supabase's /auth/v1/token endpoint: a session, or an error
+interface TokenResponse {
+  access_token?: unknown;
+  refresh_token?: unknown;
+  expires_in?: unknown;
+  expires_at?: unknown;
+  token_type?: unknown;
+  user?: SupabaseUser;
+  provider_token?: string | null;
+  provider_refresh_token?: string | null;
+  error_description?: string;
+  msg?: string;
+}
+
+const randomToken = (): string => randomBytes(32).toString("base64url");
+
+// Poll tokens and handoff codes are stored hashed, like passwords
+const hashToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+/**
+ * Check that a redirect target starts with one of the configured extension
+ * URLs, comparing scheme and host exactly so look-alike hosts don't match.
+ * (URL.origin is "null" for chrome-extension:// URLs, so it can't be used.)
+ */
+const isAllowedRedirect = (redirectTo: string): boolean => {
+  let target: URL;
+  try {
+    target = new URL(redirectTo);
+  } catch {
+    return false;
+  }
+  return oauthConfig.allowedRedirects.some((allowed) => {
+    const prefix = new URL(allowed);
+    return (
+      target.protocol === prefix.protocol &&
+      target.host === prefix.host &&
+      target.pathname.startsWith(prefix.pathname)
+    );
+  });
+};
+
+/**
+ * Validate the provider and optional redirect target for a new sign-in
+ * @returns An error message for a 400 response, if any
+ */
+export const parseOAuthStart = (
+  provider: string,
+  redirectTo: unknown
+): { redirectTo?: string | null; error?: string } => {
+  if (!oauthConfig.providers.includes(provider)) {
+    return { error: `Unsupported provider. Expected one of: ${oauthConfig.providers.join(", ")}` };
+  }
+  if (redirectTo === undefined || redirectTo === "") return { redirectTo: null };
+  if (typeof redirectTo !== "string" || !isAllowedRedirect(redirectTo)) {
+    return { error: "redirectTo is not an allowed extension URL" };
+  }
+  return { redirectTo };
+};
+
+/**
+ * Start an OAuth sign-in: create the PKCE verifier and return the Supabase
+ * authorize URL to open. Without a redirect target, the extension collects
+ * the session by polling with the returned token, and the returned browser
+ * key must come back with the callback, so an authorize URL sent to someone
+ * else can't sign them in to the poller's client.
+ * @param provider Supabase provider name
+ * @param redirectTo Allowed extension URL to send the handoff code to
+ * @param callbackUrl Absolute URL of the callback route
+ */
+export const startOAuthFlow = async (
+  provider: string,
+  redirectTo: string | null,
+  callbackUrl: string
+): Promise<OAuthStart> => {
+  // Abandoned flows are removed here rather than by a separate sweeper
+  await prisma.oAuthFlow.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+  const id = randomUUID();
+  const codeVerifier = randomToken();
+  const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+  const pollToken = redirectTo ? null : randomToken();
+  const browserKey = redirectTo ? null : randomToken();
+  const expiresAt = new Date(Date.now() + oauthConfig.flowTtlMs);
+
+  await prisma.oAuthFlow.create({
+    data: {
+      id,
+      provider,
+      codeVerifier,
+      redirectTo,
+      pollTokenHash: pollToken ? hashToken(pollToken) : null,
+      browserKeyHash: browserKey ? hashToken(browserKey) : null,
+      expiresAt,
+    },
+  });
+
+  const callback = new URL(callbackUrl);
+  callback.searchParams.set("flow", id);
+  const params = new URLSearchParams({
+    provider,
+    redirect_to: callback.toString(),
+    code_challenge: codeChallenge,
+    code_challenge_method: "s256",
+  });
+
+  return {
+    flowId: id,
+    authorizeUrl: `${supabaseUrl}/auth/v1/authorize?${params}`,
+    pollToken,
+    browserKey,
+    expiresAt,
+  };
+};
+
+/**
+ * Trade the authorization code and PKCE verifier for a Supabase session
+ * @throws Error with Supabase's message when the exchange is rejected
+ */
+const exchangeCode = async (code: string, codeVerifier: string): Promise<Session> => {
+  const response = await fetch(`${supabaseUrl}/auth/v1/token?grant_type=pkce`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: supabaseServiceKey,
+    },
+    body: JSON.stringify({ auth_code: code, code_verifier: codeVerifier }),
+    signal: AbortSignal.timeout(10_000),
+  });
+  const body: TokenResponse = await response.json().catch(() => ({}));
+
+  if (
+    !response.ok ||
+    typeof body.access_token !== "string" ||
+    typeof body.refresh_token !== "string" ||
+    typeof body.expires_in !== "number" ||
+    !body.user?.id
+  ) {
+    throw new Error(body.error_description || body.msg || `Code exchange failed (${response.status})`);
+  }
+
+  return {
+    access_token: body.access_token,
+    refresh_token: body.refresh_token,
+    expires_in: body.expires_in,
+    expires_at: typeof body.expires_at === "number" ? body.expires_at : undefined,
+    token_type: typeof body.token_type === "string" ? body.token_type : "bearer",
+    user: body.user,
+    provider_token: body.provider_token,
+    provider_refresh_token: body.provider_refresh_token,
+  };
+};
+
+/**
+ * Handle the provider callback: exchange the code, upsert the local user
+ * with the provider's profile, and keep the session for the extension to
+ * collect. Failures are recorded on the flow so polling can report them.
+ * @param flowId Flow id from the callback URL
+ * @param params code, or error and errorDescription, from the callback URL
+ * @param browserKey Value of the flow cookie, if the browser sent one
+ * @returns Where to send the browser: the extension URL with a one-time
+ * handoff code or an error, or null for polling flows
+ * @throws HttpError 400 when the flow is unknown, expired or already used,
+ * 403 when a polling flow is finished in a browser that didn't start it
+ */
+export const completeOAuthFlow = async (
+  flowId: string,
+  params: { code?: string; error?: string; errorDescription?: string },
+  browserKey?: string
+): Promise<{ redirectUrl: string | null; error: string | null }> => {
+  const flow = await prisma.oAuthFlow.findUnique({ where: { id: flowId } });
+  if (!flow || flow.status !== "pending" || flow.expiresAt <= new Date()) {
+    throw new HttpError(400, "Sign-in link is invalid or has expired", "oauth_flow_invalid");
+  }
+  // Checked before the code is exchanged, so nothing is stored for the poller
+  if (flow.browserKeyHash && (!browserKey || hashToken(browserKey) !== flow.browserKeyHash)) {
+    throw new HttpError(
+      403,
+      "Finish signing in in the browser that started it",
+      "oauth_browser_mismatch"
+    );
+  }
+
+  let result: OAuthSession | null = null;
+  let error: string | null = null;
+  if (params.error || !params.code) {
+    error = params.errorDescription || params.error || "Sign-in was cancelled";
+  } else {
+    try {
+      const session = await exchangeCode(params.code, flow.codeVerifier);
+      result = {
+        ...serializeSession(session),
+        user: await syncSessionUser(session.user, { provider: flow.provider }),
+      };
+    } catch (exchangeError) {
+      console.error("OAuth code exchange failed:", exchangeError);
+      error = "Sign-in with the provider failed";
+    }
+  }
+
+  const handoffCode = flow.redirectTo && result ? randomToken() : null;
+  const { count } = await prisma.oAuthFlow.updateMany({
+    where: { id: flow.id, status: "pending" },
+    data: {
+      status: result ? "completed" : "failed",
+      result: result ? (result as unknown as Prisma.InputJsonObject) : Prisma.DbNull,
+      error,
+      handoffCodeHash: handoffCode ? hashToken(handoffCode) : null,
+      // The verifier is single-use
+      codeVerifier: "",
+      expiresAt: new Date(Date.now() + oauthConfig.handoffTtlMs),
+    },
+  });
+  if (count === 0) {
+    throw new HttpError(400, "Sign-in link is invalid or has expired", "oauth_flow_invalid");
+  }
+
+  if (!flow.redirectTo) return { redirectUrl: null, error };
+
+  const redirect = new URL(flow.redirectTo);
+  if (handoffCode) redirect.searchParams.set("code", handoffCode);
+  else redirect.searchParams.set("error", error!);
+  return { redirectUrl: redirect.toString(), error };
+};
+
+/**
+ * Collect the session of a finished flow by handoff code or poll token.
+ * Sessions can be collected once; the flow is deleted when it is.
+ * @returns pending while the user is still signing in (polling only), or
+ * the session
+ * @throws HttpError 404 for unknown or used codes, 410 when the flow expired,
+ * 400 when sign-in failed
+ */
+export const claimOAuthSession = async (
+  secret: { handoffCode: string } | { pollToken: string }
+): Promise<OAuthClaim> => {
+  const where =
+    "handoffCode" in secret
+      ? { handoffCodeHash: hashToken(secret.handoffCode) }
+      : { pollTokenHash: hashToken(secret.pollToken) };
+  const flow = await prisma.oAuthFlow.findUnique({ where });
+
+  if (!flow) {
+    throw new HttpError(404, "Sign-in not found or already collected", "oauth_flow_not_found");
+  }
+  if (flow.expiresAt <= new Date()) {
+    await prisma.oAuthFlow.deleteMany({ where: { id: flow.id } });
+    throw new HttpError(410, "Sign-in has expired", "oauth_flow_expired");
+  }
+  if (flow.status === "pending") return { status: "pending" };
+
+  // Deleting by status makes concurrent claims race for a single winner
+  const { count } = await prisma.oAuthFlow.deleteMany({
+    where: { id: flow.id, status: flow.status },
+  });
+  if (count === 0) {
+    throw new HttpError(404, "Sign-in not found or already collected", "oauth_flow_not_found");
+  }
+  if (flow.status === "failed") {
+    throw new HttpError(400, flow.error || "Sign-in failed", "oauth_failed");
+  }
+
+  return { status: "completed", session: flow.result as unknown as OAuthSession };
+};
@@ -0,0 +1,105 @@
+// src/services/promptTemplates.ts
+import { PromptTemplate } from "@prisma/client";
+import prisma from "../config/prismaClient";
+
+export type TemplateVariable = "title" | "channel" | "transcript" | "language";
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = ["title", "channel", "transcript", "language"];
+
+const MAX_NAME_LENGTH = 100;
+const MAX_BODY_LENGTH = 8000;
+
+// {{ name }} placeholders, whitespace inside the braces allowed
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const templateVariables = (body: string): string[] =>
+  (body.match(PLACEHOLDER) || []).map((placeholder) => placeholder.replace(/[{}\s]/g, ""));
+
+export interface TemplateInput {
+  name?: string;
+  body?: string;
+}
+
+/**
+ * Validate a template create or update body. The template must reference
+ * {{transcript}} and may only use the supported variables.
+ * @param raw Untrusted request body
+ * @param partial Whether fields may be omitted (updates)
+ * @returns The sanitized fields, or an error message for a 400 response
+ */
+export const parseTemplateInput = (
+  raw: any,
+  partial = false
+): { input?: TemplateInput; error?: string } => {
+  const { name, body } = raw || {};
+  const input: TemplateInput = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== "string" || !name.trim()) {
+      return { error: "name must be a non-empty string" };
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    input.name = name.trim();
+  }
+
+  if (body !== undefined || !partial) {
+    if (typeof body !== "string" || !body.trim()) {
+      return { error: "body must be a non-empty string" };
+    }
+    if (body.length > MAX_BODY_LENGTH) {
+      return { error: `body must be at most ${MAX_BODY_LENGTH} characters` };
+    }
+
+    const variables = templateVariables(body);
+    const unknown = variables.filter(
+      (variable) => !TEMPLATE_VARIABLES.includes(variable as TemplateVariable)
+    );
+    if (unknown.length > 0) {
+      return {
+        error: `Unknown template variable {{${unknown[0]}}}. Supported: ${TEMPLATE_VARIABLES.join(", ")}`,
+      };
+    }
+    if (!variables.includes("transcript")) {
+      return { error: "body must include the {{transcript}} variable" };
+    }
+    input.body = body.trim();
+  }
+
+  if (partial && input.name === undefined && input.body === undefined) {
+    return { error: "Provide name and/or body to update" };
+  }
+
+  return { input };
+};
+
+/**
+ * Substitute {{variable}} placeholders in a template body
+ * @param body Template body that passed parseTemplateInput
+ * @param variables Value for every supported variable
+ */
+export const renderTemplate = (
+  body: string,
+  variables: Record<TemplateVariable, string>
+): string =>
+  body.replace(PLACEHOLDER, (placeholder, name: string) =>
+    TEMPLATE_VARIABLES.includes(name as TemplateVariable)
+      ? variables[name as TemplateVariable]
+      : placeholder
+  );
+
+/**
+ * Load a template owned by the given user
+ */
+export const findTemplate = (userId: string, id: string): Promise<PromptTemplate | null> =>
+  prisma.promptTemplate.findFirst({ where: { id, userId } });
+
+export const serializeTemplate = (template: PromptTemplate) => ({
+  id: template.id,
+  name: template.name,
+  body: template.body,
+  version: template.version,
+  createdAt: template.createdAt,
+  updatedAt: template.updatedAt,
+});
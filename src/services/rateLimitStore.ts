@@ -0,0 +1,114 @@
+// src/services/rateLimitStore.ts
+import Redis from "ioredis";
+
+export interface RateLimitHit {
+  // Requests counted for the key in the current window, including this one
+  count: number;
+  // When the current window ends, in epoch milliseconds
+  resetAt: number;
+}
+
+/**
+ * Fixed-window request counter. Implementations must be safe to share
+ * between all rate-limited routes.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+const KEY_PREFIX = "ratelimit:";
+
+/**
+ * Counters kept in process memory. Limits apply per server instance, so
+ * multi-instance deployments should use a shared store.
+ */
+export const createMemoryStore = (cleanupIntervalMs = 60_000): RateLimitStore => {
+  const windows = new Map<string, RateLimitHit>();
+
+  // Drop expired windows so one-off clients don't accumulate
+  const timer = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((hit, key) => {
+      if (hit.resetAt <= now) windows.delete(key);
+    });
+  }, cleanupIntervalMs);
+  timer.unref();
+
+  return {
+    increment: async (key, windowMs) => {
+      const now = Date.now();
+      const current = windows.get(key);
+      if (!current || current.resetAt <= now) {
+        const hit = { count: 1, resetAt: now + windowMs };
+        windows.set(key, hit);
+        return { ...hit };
+      }
+      current.count += 1;
+      return { ...current };
+    },
+  };
+};
+
+// Increment the window counter, starting its expiry on the first request
+const INCREMENT_SCRIPT = `
+local count = redis.call("INCR", KEYS[1])
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl < 0 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return {count, ttl}
+`;
+
+/**
+ * Counters kept in a Redis-compatible server (Redis, Valkey, KeyDB,
+ * Dragonfly), shared by every instance pointing at it. While the server is
+ * unreachable or rejects the connection (e.g. a wrong password), requests
+ * are counted in process memory instead, so limits still apply per instance
+ * rather than failing open.
+ * @param url redis:// or rediss:// URL with optional credentials and
+ * database number
+ * @param commandTimeoutMs How long to wait for a reply before falling back
+ */
+export const createRedisStore = (url: string, commandTimeoutMs = 1000): RateLimitStore => {
+  const client = new Redis(url, {
+    commandTimeout: commandTimeoutMs,
+    // Commands wait for the connection but aren't retried across reconnects
+    maxRetriesPerRequest: 0,
+  });
+  const fallback = createMemoryStore();
+  let healthy = true;
+
+  // Log once per outage; the client keeps reconnecting in the background
+  const degrade = (error: unknown) => {
+    if (!healthy) return;
+    healthy = false;
+    console.error(
+      "Redis rate limit store unavailable, counting requests in process memory until it recovers:",
+      error
+    );
+  };
+  client.on("error", degrade);
+
+  return {
+    increment: async (key, windowMs) => {
+      let reply: unknown;
+      try {
+        reply = await client.eval(INCREMENT_SCRIPT, 1, KEY_PREFIX + key, windowMs);
+      } catch (error) {
+        degrade(error);
+        return fallback.increment(key, windowMs);
+      }
+
+      if (!healthy) {
+        healthy = true;
+        console.log("Redis rate limit store recovered");
+      }
+      if (!Array.isArray(reply) || reply.length !== 2) {
+        throw new Error("Unexpected reply from rate limit script");
+      }
+      const [count, ttl] = reply as number[];
+      return { count, resetAt: Date.now() + Math.max(0, ttl) };
+    },
+  };
+};
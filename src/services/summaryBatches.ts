@@ -0,0 +1,424 @@
+// src/services/summaryBatches.ts
+import { Prisma, SummaryBatch, SummaryBatchItem } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { batchConfig } from "../config/jobs";
+import { cacheConfig } from "../config/llm";
+import { parseSummaryRequest, runSummaryPipeline } from "./summaryPipeline";
+import { generateDigest, GeneratedSummary } from "./generateSummary";
+import { CreditReservation, refundCredits, reserveCredits } from "./credits";
+import { parseProviderOptions } from "./llm";
+import { parseStyleOptions } from "./summaryStyles";
+import { createLimiter } from "../utils/createLimiter";
+import { extractPlaylistId } from "../utils/youtube";
+import { HttpError } from "../utils/httpError";
+
+const MAX_TITLE_LENGTH = 300;
+
+export interface BatchRequest {
+  // Generate request body per video, with batch options and templateId
+  // filled in where the item has none
+  items: { input: Prisma.InputJsonObject; videoId: string }[];
+  playlistId: string | null;
+  title: string | null;
+  options: Prisma.InputJsonObject | null;
+  digest: boolean;
+}
+
+type BatchWithItems = SummaryBatch & { items: SummaryBatchItem[] };
+
+/**
+ * Shape a batch for API responses, with per-item progress
+ */
+export const serializeBatch = (batch: BatchWithItems) => {
+  const count = (status: SummaryBatchItem["status"]) =>
+    batch.items.filter((item) => item.status === status).length;
+
+  return {
+    id: batch.id,
+    status: batch.status,
+    playlistId: batch.playlistId,
+    title: batch.title,
+    progress: {
+      total: batch.items.length,
+      queued: count("queued"),
+      running: count("running"),
+      succeeded: count("succeeded"),
+      failed: count("failed"),
+    },
+    items: batch.items.map((item) => ({
+      position: item.position,
+      videoId: item.videoId,
+      status: item.status,
+      summaryId: item.summaryId,
+      cached: item.cached,
+      error: item.error,
+      startedAt: item.startedAt,
+      finishedAt: item.finishedAt,
+    })),
+    digestRequested: batch.digestRequested,
+    digest: batch.digest as unknown as GeneratedSummary | null,
+    digestError: batch.digestError,
+    creditsReserved: batch.creditsReserved,
+    creditsRefunded: batch.creditsRefunded,
+    createdAt: batch.createdAt,
+    startedAt: batch.startedAt,
+    finishedAt: batch.finishedAt,
+  };
+};
+
+/**
+ * Validate a batch request body: `items` of generate request bodies
+ * ({ content or captions, metadata, options?, templateId? }), plus optional batch-wide
+ * `options` and `templateId`, `playlistId`, `title` and `digest` flag
+ * @param body Untrusted request body
+ * @returns The normalized batch, or an error message with the response status
+ * (400, or 413 for an oversized item) and error code
+ */
+export const parseBatchRequest = (
+  body: any
+): { batch?: BatchRequest; error?: string; status?: number; code?: string } => {
+  const { items, playlistId, title, options, templateId, digest } = body || {};
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: "items must be a non-empty array of { content, metadata } objects" };
+  }
+  if (items.length > batchConfig.maxItems) {
+    return { error: `A batch can have at most ${batchConfig.maxItems} items` };
+  }
+
+  const parsedPlaylistId =
+    playlistId !== undefined && playlistId !== null ? extractPlaylistId(playlistId) : null;
+  if (playlistId !== undefined && playlistId !== null && !parsedPlaylistId) {
+    return { error: "playlistId is not a valid YouTube playlist id or URL" };
+  }
+
+  if (
+    title !== undefined &&
+    title !== null &&
+    (typeof title !== "string" || title.trim().length > MAX_TITLE_LENGTH)
+  ) {
+    return { error: `title must be a string of at most ${MAX_TITLE_LENGTH} characters` };
+  }
+
+  if (digest !== undefined && typeof digest !== "boolean") {
+    return { error: "digest must be a boolean" };
+  }
+  if (digest && items.length < 2) {
+    return { error: "A digest needs at least 2 items" };
+  }
+
+  // Batch options drive the digest, so check them even when every item
+  // brings its own
+  const { error: providerError } = parseProviderOptions(options);
+  if (providerError) return { error: providerError };
+  const { error: styleError } = parseStyleOptions(options);
+  if (styleError) return { error: styleError };
+
+  const parsedItems: BatchRequest["items"] = [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i] || {};
+    const input = {
+      content: item.content,
+      captions: item.captions,
+      metadata: item.metadata,
+      options: item.options ?? options,
+      templateId: item.templateId ?? templateId,
+    };
+
+    const { request, error, status, code } = parseSummaryRequest(input);
+    if (!request) {
+      return { error: `items[${i}]: ${error}`, status, code };
+    }
+    // Store the normalized segments rather than the caption file
+    if (input.captions) {
+      input.content = request.segments;
+      input.captions = undefined;
+    }
+    parsedItems.push({ input: input as Prisma.InputJsonObject, videoId: request.videoId });
+  }
+
+  return {
+    batch: {
+      items: parsedItems,
+      playlistId: parsedPlaylistId,
+      title: typeof title === "string" && title.trim() ? title.trim() : null,
+      options: options ?? null,
+      digest: digest === true,
+    },
+  };
+};
+
+/**
+ * Credits reserved for a batch: every item at the price of a fresh
+ * generation or cache hit, whichever is higher, plus the digest
+ */
+const batchCost = (batch: BatchRequest): number =>
+  batch.items.length * Math.max(1, cacheConfig.hitCost) +
+  (batch.digest ? batchConfig.digestCost : 0);
+
+/**
+ * Reserve credits for a whole batch and queue it for processing
+ * @param userId Owner of the batch
+ * @param batch Output of parseBatchRequest
+ * @returns The new batch with its items
+ * @throws HttpError 403 when the user can't cover the whole batch
+ */
+export const createSummaryBatch = async (
+  userId: string,
+  batch: BatchRequest
+): Promise<BatchWithItems> => {
+  const cost = batchCost(batch);
+  const reservation = await reserveCredits(userId, cost, "summary_batch");
+
+  let created: BatchWithItems;
+  try {
+    created = await prisma.summaryBatch.create({
+      data: {
+        userId,
+        playlistId: batch.playlistId,
+        title: batch.title,
+        options: batch.options ?? undefined,
+        digestRequested: batch.digest,
+        creditsReserved: cost,
+        reservationId: reservation.transactionId,
+        items: {
+          create: batch.items.map((item, position) => ({
+            position,
+            videoId: item.videoId,
+            input: item.input,
+          })),
+        },
+      },
+      include: { items: { orderBy: { position: "asc" } } },
+    });
+  } catch (error) {
+    await refundCredits(reservation, "batch_create_failed");
+    throw error;
+  }
+
+  setImmediate(() => {
+    processBatch(created.id).catch((error) =>
+      console.error(`Summary batch ${created.id} crashed:`, error)
+    );
+  });
+
+  return created;
+};
+
+/**
+ * Load a batch owned by the given user, with its items in order
+ */
+export const findSummaryBatch = (userId: string, id: string): Promise<BatchWithItems | null> =>
+  prisma.summaryBatch.findFirst({
+    where: { id, userId },
+    include: { items: { orderBy: { position: "asc" } } },
+  });
+
+/**
+ * Page through a user's batches, newest first
+ */
+export const listSummaryBatches = (userId: string, skip: number, take: number) =>
+  Promise.all([
+    prisma.summaryBatch.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      skip,
+      take,
+      include: { items: { orderBy: { position: "asc" } } },
+    }),
+    prisma.summaryBatch.count({ where: { userId } }),
+  ]);
+
+// Shared by all batches, so running several at once doesn't multiply the
+// number of model calls in flight
+const limitBatchItems = createLimiter(batchConfig.concurrency);
+
+/**
+ * Summarize one batch item and record the outcome. Never throws, so a DB error
+ * on one item can't stop the batch from finishing and refunding; an item
+ * whose status couldn't be saved keeps creditsCharged at 0 and is refunded.
+ */
+const runBatchItem = async (userId: string, item: SummaryBatchItem): Promise<void> => {
+  try {
+    await prisma.summaryBatchItem.update({
+      where: { id: item.id },
+      data: { status: "running", startedAt: new Date() },
+    });
+
+    const { request, error } = parseSummaryRequest(item.input);
+    if (!request) {
+      throw new HttpError(400, error || "Invalid batch item");
+    }
+
+    const result = await runSummaryPipeline(userId, request, { prepaid: true });
+
+    await prisma.summaryBatchItem.update({
+      where: { id: item.id },
+      data: {
+        status: "succeeded",
+        summaryId: result.data.id,
+        cached: result.cached,
+        creditsCharged: result.creditsCharged,
+        input: Prisma.DbNull,
+        error: null,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`Summary batch item ${item.id} failed:`, error);
+
+    try {
+      await prisma.summaryBatchItem.update({
+        where: { id: item.id },
+        data: {
+          status: "failed",
+          input: Prisma.DbNull,
+          error: error instanceof Error ? error.message : "Unknown error",
+          finishedAt: new Date(),
+        },
+      });
+    } catch (dbError) {
+      console.error(`Database error marking summary batch item ${item.id} failed:`, dbError);
+    }
+  }
+};
+
+/**
+ * Summarize across the batch's saved summaries
+ * @returns Credits charged for the digest
+ */
+const runDigest = async (batch: BatchWithItems): Promise<number> => {
+  const summaryIds = batch.items
+    .filter((item) => item.status === "succeeded" && item.summaryId)
+    .map((item) => item.summaryId!);
+
+  const rows = await prisma.summary.findMany({
+    where: { id: { in: summaryIds }, userId: batch.userId },
+    select: { id: true, title: true, keyPoints: true, fullSummary: true },
+  });
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const summaries = summaryIds.filter((id) => byId.has(id)).map((id) => byId.get(id)!);
+
+  if (summaries.length < 2) {
+    await prisma.summaryBatch.update({
+      where: { id: batch.id },
+      data: { digestError: "Fewer than 2 videos were summarized, so no digest was made" },
+    });
+    return 0;
+  }
+
+  const { options: providerOptions } = parseProviderOptions(batch.options);
+  const { options: styleOptions } = parseStyleOptions(batch.options);
+
+  try {
+    const digest = await generateDigest(
+      summaries,
+      batch.title || `Digest of ${summaries.length} videos`,
+      { ...providerOptions, ...styleOptions }
+    );
+    await prisma.summaryBatch.update({
+      where: { id: batch.id },
+      data: { digest: JSON.parse(JSON.stringify(digest)), digestError: null },
+    });
+    return batchConfig.digestCost;
+  } catch (error) {
+    console.error(`Digest for summary batch ${batch.id} failed:`, error);
+    await prisma.summaryBatch.update({
+      where: { id: batch.id },
+      data: { digestError: error instanceof Error ? error.message : "Unknown error" },
+    });
+    return 0;
+  }
+};
+
+/**
+ * Process a queued batch: summarize its remaining items with bounded
+ * concurrency, make the digest, and refund credits that weren't used
+ * (failed items, free cache hits, skipped digest)
+ */
+const processBatch = async (batchId: string): Promise<void> => {
+  const claimed = await prisma.summaryBatch.updateMany({
+    where: { id: batchId, status: "queued" },
+    data: { status: "running", startedAt: new Date() },
+  });
+  if (claimed.count === 0) return;
+
+  const pending = await prisma.summaryBatchItem.findMany({
+    where: { batchId, status: "queued" },
+    orderBy: { position: "asc" },
+  });
+  const { userId } = await prisma.summaryBatch.findUniqueOrThrow({
+    where: { id: batchId },
+    select: { userId: true },
+  });
+
+  await Promise.all(pending.map((item) => limitBatchItems(() => runBatchItem(userId, item))));
+
+  const batch = await prisma.summaryBatch.findUniqueOrThrow({
+    where: { id: batchId },
+    include: { items: { orderBy: { position: "asc" } } },
+  });
+
+  // A batch resumed after a restart may already have its digest
+  let digestCharged = batch.digest ? batchConfig.digestCost : 0;
+  if (batch.digestRequested && !batch.digest) {
+    digestCharged = await runDigest(batch);
+  }
+  const charged =
+    batch.items.reduce((sum, item) => sum + item.creditsCharged, 0) + digestCharged;
+  const unused = batch.creditsReserved - charged - batch.creditsRefunded;
+
+  if (unused > 0 && batch.reservationId) {
+    const reservation: CreditReservation = {
+      userId,
+      amount: batch.creditsReserved,
+      transactionId: batch.reservationId,
+      balance: 0,
+    };
+    await refundCredits(reservation, "batch_unused", unused);
+  }
+
+  await prisma.summaryBatch.update({
+    where: { id: batchId },
+    data: {
+      status: batch.items.some((item) => item.status === "succeeded") ? "succeeded" : "failed",
+      creditsRefunded: batch.creditsRefunded + Math.max(unused, 0),
+      finishedAt: new Date(),
+    },
+  });
+};
+
+/**
+ * Requeue batches interrupted by a restart and finish them in the
+ * background, one batch at a time
+ */
+export const resumeSummaryBatches = async (): Promise<void> => {
+  let batchIds: string[];
+  try {
+    // Single worker process: anything still running was interrupted
+    await prisma.summaryBatchItem.updateMany({
+      where: { status: "running" },
+      data: { status: "queued" },
+    });
+    await prisma.summaryBatch.updateMany({
+      where: { status: "running" },
+      data: { status: "queued" },
+    });
+    const queued = await prisma.summaryBatch.findMany({
+      where: { status: "queued" },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    });
+    batchIds = queued.map((batch) => batch.id);
+  } catch (dbError) {
+    console.error("Database error recovering summary batches:", dbError);
+    return;
+  }
+
+  if (batchIds.length > 0) {
+    console.log(`Resuming ${batchIds.length} interrupted summary batch(es)`);
+  }
+  for (const id of batchIds) {
+    await processBatch(id).catch((error) => console.error(`Summary batch ${id} crashed:`, error));
+  }
+};
@@ -0,0 +1,299 @@
+// src/services/summaryExport.ts
+import prisma from "../config/prismaClient";
+import { summaryTagsInclude } from "./libraryOrganization";
+import { formatTimestamp } from "./transcriptSegments";
+import { serializeSummary, SerializedSummary } from "../utils/serializeSummary";
+import { canonicalVideoUrl } from "../utils/youtube";
+import { HttpError } from "../utils/httpError";
+import { PdfBlock, renderPdf } from "../utils/pdf";
+import { createZip } from "../utils/zip";
+
+export type ExportFormat = "markdown" | "text" | "pdf" | "json" | "anki";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["markdown", "text", "pdf", "json", "anki"];
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  text: "txt",
+  pdf: "pdf",
+  json: "json",
+  anki: "csv",
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  text: "text/plain; charset=utf-8",
+  pdf: "application/pdf",
+  json: "application/json; charset=utf-8",
+  anki: "text/csv; charset=utf-8",
+};
+
+// A key point or chapter with its start time, when one is known
+interface TimedItem {
+  text: string;
+  start: number | null;
+  link: string | null;
+}
+
+/**
+ * Validate the requested export format
+ * @returns The format, or an error message for a 400 response
+ */
+export const parseExportFormat = (raw: unknown): { format?: ExportFormat; error?: string } => {
+  const format = raw === undefined || raw === "" ? "markdown" : raw;
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return { error: `Unknown format. Expected one of: ${EXPORT_FORMATS.join(", ")}` };
+  }
+  return { format: format as ExportFormat };
+};
+
+/**
+ * Link that opens the video at a given time, when the video id is known
+ */
+const timestampLink = (summary: SerializedSummary, start: number): string | null =>
+  summary.videoId ? `${canonicalVideoUrl(summary.videoId)}&t=${Math.floor(start)}s` : null;
+
+const keyPointItems = (summary: SerializedSummary): TimedItem[] =>
+  summary.keyPoints.map((text, i) => {
+    const start = summary.keyPointStarts?.[i] ?? null;
+    return { text, start, link: start !== null ? timestampLink(summary, start) : null };
+  });
+
+const chapterItems = (summary: SerializedSummary): TimedItem[] =>
+  (summary.chapters || []).map(({ title, start }) => ({
+    text: title,
+    start,
+    link: timestampLink(summary, start),
+  }));
+
+const withTime = ({ text, start }: TimedItem): string =>
+  start !== null ? `[${formatTimestamp(start)}] ${text}` : text;
+
+/**
+ * File name derived from the title, safe for downloads and zip entries
+ */
+const exportFilename = (summary: SerializedSummary, format: ExportFormat): string => {
+  const slug = summary.title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${slug || "summary"}.${EXTENSIONS[format]}`;
+};
+
+const toMarkdown = (summary: SerializedSummary): string => {
+  const link = (item: TimedItem) =>
+    item.start === null
+      ? item.text
+      : item.link
+        ? `[${formatTimestamp(item.start)}](${item.link}) ${item.text}`
+        : `${formatTimestamp(item.start)} ${item.text}`;
+  const chapters = chapterItems(summary);
+
+  return [
+    `# ${summary.title}`,
+    "",
+    ...(summary.sourceUrl ? [`Source: ${summary.sourceUrl}`] : []),
+    ...(summary.tags && summary.tags.length > 0 ? [`Tags: ${summary.tags.join(", ")}`] : []),
+    "",
+    "## Key Points",
+    "",
+    ...keyPointItems(summary).map((item) => `- ${link(item)}`),
+    "",
+    ...(chapters.length > 0
+      ? ["## Chapters", "", ...chapters.map((item) => `- ${link(item)}`), ""]
+      : []),
+    "## Summary",
+    "",
+    summary.fullSummary,
+    "",
+  ].join("\n");
+};
+
+const toText = (summary: SerializedSummary): string => {
+  const chapters = chapterItems(summary);
+
+  return [
+    summary.title,
+    ...(summary.sourceUrl ? [`Source: ${summary.sourceUrl}`] : []),
+    "",
+    "KEY POINTS",
+    ...keyPointItems(summary).map((item) => `- ${withTime(item)}`),
+    "",
+    ...(chapters.length > 0 ? ["CHAPTERS", ...chapters.map(withTime), ""] : []),
+    "SUMMARY",
+    summary.fullSummary,
+    "",
+  ].join("\n");
+};
+
+const toPdf = (summary: SerializedSummary): Buffer => {
+  const chapters = chapterItems(summary);
+  const paragraphs = summary.fullSummary.split(/\n\s*\n/).filter((text) => text.trim());
+  const blocks: PdfBlock[] = [
+    { text: summary.title, heading: true },
+    ...(summary.sourceUrl ? [{ text: `Source: ${summary.sourceUrl}` }] : []),
+    { text: "Key Points", heading: true },
+    ...keyPointItems(summary).map((item) => ({ text: withTime(item), bullet: true })),
+    ...(chapters.length > 0
+      ? [
+          { text: "Chapters", heading: true },
+          ...chapters.map((item) => ({ text: withTime(item), bullet: true })),
+        ]
+      : []),
+    { text: "Summary", heading: true },
+    ...paragraphs.map((text) => ({ text })),
+  ];
+
+  return renderPdf(summary.title, blocks);
+};
+
+const richText = (content: string, url: string | null = null) => [
+  { type: "text", text: { content, link: url ? { url } : null } },
+];
+
+/**
+ * The summary fields plus a Notion-style page: title property and a list of
+ * blocks that can be sent to the Notion API as page children
+ */
+const toJson = (summary: SerializedSummary): string => {
+  const bullet = (item: TimedItem) => ({
+    object: "block",
+    type: "bulleted_list_item",
+    bulleted_list_item: {
+      rich_text:
+        item.start !== null
+          ? [
+              ...richText(`${formatTimestamp(item.start)} `, item.link),
+              ...richText(item.text),
+            ]
+          : richText(item.text),
+    },
+  });
+  const heading = (text: string) => ({
+    object: "block",
+    type: "heading_2",
+    heading_2: { rich_text: richText(text) },
+  });
+  const chapters = chapterItems(summary);
+
+  const page = {
+    properties: {
+      title: { title: richText(summary.title) },
+    },
+    children: [
+      {
+        object: "block",
+        type: "bookmark",
+        bookmark: { url: summary.sourceUrl },
+      },
+      heading("Key Points"),
+      ...keyPointItems(summary).map(bullet),
+      ...(chapters.length > 0 ? [heading("Chapters"), ...chapters.map(bullet)] : []),
+      heading("Summary"),
+      ...summary.fullSummary
+        .split(/\n\s*\n/)
+        .filter((text) => text.trim())
+        .map((text) => ({
+          object: "block",
+          type: "paragraph",
+          paragraph: { rich_text: richText(text.trim()) },
+        })),
+    ],
+  };
+
+  return JSON.stringify({ summary, notion: page }, null, 2);
+};
+
+const csvField = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Key points as flashcards in Anki's CSV import format. "Label: detail"
+ * points become label/detail cards; other points are asked by number.
+ * The third column links to the moment in the video.
+ */
+const toAnki = (summary: SerializedSummary): string => {
+  const tags = (summary.tags || []).map((tag) => tag.replace(/\s+/g, "_")).join(" ");
+  const rows = keyPointItems(summary).map((item, i) => {
+    const colon = item.text.indexOf(": ");
+    const [front, back] =
+      colon > 0 && colon < 80
+        ? [`${summary.title}: ${item.text.slice(0, colon)}`, item.text.slice(colon + 2)]
+        : [`${summary.title}: key point ${i + 1}`, item.text];
+    const source = item.link || summary.sourceUrl;
+    return [front, back, source, tags].map(csvField).join(",");
+  });
+
+  return ["#separator:Comma", "#html:false", "#tags column:4", ...rows, ""].join("\n");
+};
+
+/**
+ * Render a library entry in an export format
+ * @param summary Serialized summary, with tags when they should be included
+ * @param format Output format
+ * @returns File name, content type and contents for the download
+ */
+export const exportSummary = (summary: SerializedSummary, format: ExportFormat): ExportFile => {
+  const renderers: Record<ExportFormat, (summary: SerializedSummary) => Buffer | string> = {
+    markdown: toMarkdown,
+    text: toText,
+    pdf: toPdf,
+    json: toJson,
+    anki: toAnki,
+  };
+
+  return {
+    filename: exportFilename(summary, format),
+    contentType: CONTENT_TYPES[format],
+    body: renderers[format](summary),
+  };
+};
+
+/**
+ * Export several of the user's summaries into one zip archive. Ids that
+ * don't belong to the user are skipped.
+ * @returns The zip file
+ * @throws HttpError 404 when none of the summaries belong to the user
+ */
+export const exportSummaries = async (
+  userId: string,
+  ids: string[],
+  format: ExportFormat
+): Promise<ExportFile> => {
+  const summaries = await prisma.summary.findMany({
+    where: { id: { in: ids }, userId },
+    orderBy: { createdAt: "desc" },
+    omit: { embedding: true },
+    include: summaryTagsInclude,
+  });
+  if (summaries.length === 0) {
+    throw new HttpError(404, "No summaries found", "summary_not_found");
+  }
+
+  // Titles repeat often enough (re-summarized videos) that names need deduping
+  const used = new Set<string>();
+  const entries = summaries.map((row) => {
+    const file = exportSummary(serializeSummary(row), format);
+    let name = file.filename;
+    for (let n = 2; used.has(name); n++) {
+      name = file.filename.replace(/(\.\w+)$/, `-${n}$1`);
+    }
+    used.add(name);
+    return { name, data: file.body };
+  });
+
+  return {
+    filename: `summaries-${format}.zip`,
+    contentType: "application/zip",
+    body: createZip(entries),
+  };
+};
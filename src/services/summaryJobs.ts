@@ -0,0 +1,205 @@
+// src/services/summaryJobs.ts
+import { Prisma, SummaryJob } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { jobConfig } from "../config/jobs";
+import { parseSummaryRequest, runSummaryPipeline } from "./summaryPipeline";
+import { ProviderError } from "./llm";
+import { HttpError } from "../utils/httpError";
+
+// Ids of the jobs this process is running
+const activeJobs = new Set<string>();
+let polling = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Shape a job row for API responses
+ */
+export const serializeJob = (job: SummaryJob) => ({
+  id: job.id,
+  status: job.status,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  summaryId: job.summaryId,
+  result: job.result,
+  error: job.error,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+});
+
+/**
+ * Queue a summary generation request for background processing
+ * @param userId Owner of the job
+ * @param body Generate request body (content or captions, metadata, options,
+ * templateId); must
+ * already have passed parseSummaryRequest
+ * @returns The new job row
+ */
+export const enqueueSummaryJob = async (userId: string, body: any): Promise<SummaryJob> => {
+  const job = await prisma.summaryJob.create({
+    data: {
+      userId,
+      input: {
+        content: body.content,
+        captions: body.captions,
+        metadata: body.metadata,
+        options: body.options,
+        templateId: body.templateId,
+      } as Prisma.InputJsonObject,
+      maxAttempts: jobConfig.maxAttempts,
+    },
+  });
+
+  // Don't wait for the next poll when there is spare capacity
+  setImmediate(pollJobs);
+
+  return job;
+};
+
+/**
+ * Load a job owned by the given user
+ */
+export const findSummaryJob = (userId: string, id: string): Promise<SummaryJob | null> =>
+  prisma.summaryJob.findFirst({ where: { id, userId } });
+
+// Transient provider errors are retried; client errors (bad input, no
+// credits) and permanent provider errors (safety, quota) are not
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof ProviderError) return error.retryable;
+  return !(error instanceof HttpError && error.status < 500);
+};
+
+const runJob = async (job: SummaryJob): Promise<void> => {
+  const attempts = job.attempts + 1;
+
+  try {
+    const { request, error } = parseSummaryRequest(job.input);
+    if (!request) {
+      throw new HttpError(400, error || "Invalid job input");
+    }
+
+    const result = await runSummaryPipeline(job.userId, request);
+
+    await prisma.summaryJob.update({
+      where: { id: job.id },
+      data: {
+        status: "succeeded",
+        attempts,
+        result: JSON.parse(JSON.stringify(result)),
+        summaryId: result.data.id,
+        error: null,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const retry = isRetryable(error) && attempts < job.maxAttempts;
+
+    console.error(`Summary job ${job.id} attempt ${attempts} failed:`, error);
+
+    try {
+      await prisma.summaryJob.update({
+        where: { id: job.id },
+        data: retry
+          ? {
+              status: "queued",
+              attempts,
+              error: message,
+              // Exponential backoff: base, 2x base, 4x base, ...
+              runAfter: new Date(Date.now() + jobConfig.backoffBaseMs * 2 ** (attempts - 1)),
+            }
+          : {
+              status: "failed",
+              attempts,
+              error: message,
+              finishedAt: new Date(),
+            },
+      });
+    } catch (dbError) {
+      // The job stays running until requeueStaleJobs picks it up
+      console.error(`Database error recording failure of summary job ${job.id}:`, dbError);
+    }
+  }
+};
+
+/**
+ * Requeue jobs marked running long ago that this process isn't working
+ * on, so a lost status update doesn't leave them running until a restart
+ */
+const requeueStaleJobs = async (): Promise<void> => {
+  const stale = await prisma.summaryJob.updateMany({
+    where: {
+      status: "running",
+      startedAt: { lt: new Date(Date.now() - jobConfig.staleAfterMs) },
+      id: { notIn: Array.from(activeJobs) },
+    },
+    data: { status: "queued", runAfter: new Date() },
+  });
+  if (stale.count > 0) {
+    console.warn(`Requeued ${stale.count} stale summary job(s)`);
+  }
+};
+
+/**
+ * Claim due jobs up to the concurrency limit and run them
+ */
+const pollJobs = async (): Promise<void> => {
+  // Overlapping polls could claim past the concurrency limit
+  if (polling) return;
+  polling = true;
+
+  try {
+    await requeueStaleJobs();
+
+    while (activeJobs.size < jobConfig.concurrency) {
+      const next = await prisma.summaryJob.findFirst({
+        where: { status: "queued", runAfter: { lte: new Date() } },
+        orderBy: { runAfter: "asc" },
+      });
+      if (!next) return;
+
+      // Conditional update so two pollers can never claim the same job
+      const claimed = await prisma.summaryJob.updateMany({
+        where: { id: next.id, status: "queued" },
+        data: { status: "running", startedAt: new Date() },
+      });
+      if (claimed.count === 0) continue;
+
+      activeJobs.add(next.id);
+      runJob(next)
+        .catch((error) => console.error(`Summary job ${next.id} crashed:`, error))
+        .finally(() => {
+          activeJobs.delete(next.id);
+          setImmediate(pollJobs);
+        });
+    }
+  } catch (dbError) {
+    console.error("Database error polling summary jobs:", dbError);
+  } finally {
+    polling = false;
+  }
+};
+
+/**
+ * Requeue jobs left running by a previous process, then start polling
+ */
+export const startJobWorker = async (): Promise<void> => {
+  if (pollTimer) return;
+
+  try {
+    // This server runs a single worker process, so anything still marked
+    // running was interrupted by a restart
+    const recovered = await prisma.summaryJob.updateMany({
+      where: { status: "running" },
+      data: { status: "queued", runAfter: new Date() },
+    });
+    if (recovered.count > 0) {
+      console.log(`Requeued ${recovered.count} interrupted summary job(s)`);
+    }
+  } catch (dbError) {
+    console.error("Database error recovering summary jobs:", dbError);
+  }
+
+  pollTimer = setInterval(pollJobs, jobConfig.pollIntervalMs);
+  pollJobs();
+};
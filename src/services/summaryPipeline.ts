@@ -0,0 +1,430 @@
+// src/services/summaryPipeline.ts
+import crypto from "crypto";
+import { PromptTemplate, Prisma, VideoSummary } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { cacheConfig } from "../config/llm";
+import { generateSummary, GeneratedSummary } from "./generateSummary";
+import { PROMPT_VERSION } from "./summaryPrompts";
+import { parseStyleOptions, StyleOptions, styleKey } from "./summaryStyles";
+import { findTemplate } from "./promptTemplates";
+import { isUniqueViolation } from "./libraryOrganization";
+import { indexSummaryEmbedding } from "./librarySearch";
+import {
+  CreditReservation,
+  linkReservation,
+  refundCredits,
+  reserveCredits,
+} from "./credits";
+import { parseProviderOptions, ProviderOptions, resolveModel } from "./llm";
+import { parseSegments, segmentsToText, TranscriptSegment } from "./transcriptSegments";
+import { assertTranscriptSize, parseCaptionsInput } from "./captionIngestion";
+import { serializeSummary, SerializedSummary } from "../utils/serializeSummary";
+import { HttpError } from "../utils/httpError";
+import { canonicalVideoUrl, extractVideoId } from "../utils/youtube";
+
+export interface SummaryRequest {
+  videoId: string;
+  transcript: string;
+  segments: TranscriptSegment[] | null;
+  metadata: any;
+  videoUrl: string;
+  providerOptions: ProviderOptions;
+  styleOptions: StyleOptions;
+  // User prompt template replacing the built-in instructions
+  templateId: string | null;
+}
+
+export interface PipelineHooks {
+  // Receives model output as it streams in
+  onDelta?: (delta: string) => void;
+  // Aborting before the summary is saved skips saving and charging
+  signal?: AbortSignal;
+  // The caller already reserved credits (batches), so the pipeline neither
+  // reserves nor refunds and only reports what it used in creditsCharged
+  prepaid?: boolean;
+}
+
+export interface SummaryResult {
+  data: SerializedSummary;
+  creditsRemaining?: number;
+  // Credits this request cost: 0 when the user already had the entry
+  creditsCharged: number;
+  cached: boolean;
+}
+
+/**
+ * Validate a generate request body. The transcript comes either as `content`
+ * (text or timed segments scraped by the extension) or as an uploaded
+ * caption file in `captions: { data, format? }`.
+ * @param body Untrusted request body with content or captions, metadata and options
+ * @returns The normalized request, or an error message with the response
+ * status (400, or 413 for oversized transcripts) and error code
+ */
+export const parseSummaryRequest = (
+  body: any
+): { request?: SummaryRequest; error?: string; status?: number; code?: string } => {
+  const { metadata, captions } = body || {};
+  let { content } = body || {};
+
+  if (content && captions) {
+    return { error: "Provide either content or captions, not both" };
+  }
+  if (captions) {
+    const { transcript, error, status, code } = parseCaptionsInput(captions);
+    if (!transcript) {
+      return { error, status, code };
+    }
+    content = transcript.segments;
+  }
+
+  if (!content) {
+    return { error: "Content (transcript) or captions are required" };
+  }
+
+  if (!metadata || !metadata.videoId) {
+    return { error: "Video metadata with videoId is required" };
+  }
+
+  // Accept ids as well as watch, youtu.be and shorts URLs
+  const videoId = extractVideoId(metadata.videoId) || extractVideoId(metadata.url);
+  if (!videoId) {
+    return { error: "metadata.videoId is not a valid YouTube video id or URL" };
+  }
+
+  // Content is either plain transcript text or timed caption segments
+  const segments = Array.isArray(content) ? parseSegments(content) : null;
+  if (Array.isArray(content) && !segments) {
+    return { error: "Content segments must be { start, duration, text } objects" };
+  }
+
+  const transcript = segments ? segmentsToText(segments) : String(content);
+  try {
+    assertTranscriptSize(transcript);
+  } catch (sizeError) {
+    const { message, status, code } = sizeError as HttpError;
+    return { error: message, status, code };
+  }
+
+  const { options: providerOptions, error } = parseProviderOptions(body.options);
+  if (error) {
+    return { error };
+  }
+
+  const { options: styleOptions, error: styleError } = parseStyleOptions(body.options);
+  if (styleError) {
+    return { error: styleError };
+  }
+
+  const { templateId } = body;
+  if (
+    templateId !== undefined &&
+    templateId !== null &&
+    (typeof templateId !== "string" || !templateId.trim())
+  ) {
+    return { error: "templateId must be a non-empty string" };
+  }
+
+  return {
+    request: {
+      videoId,
+      transcript,
+      segments,
+      metadata: { ...metadata, videoId },
+      videoUrl: canonicalVideoUrl(videoId),
+      providerOptions,
+      styleOptions,
+      templateId: templateId ? templateId.trim() : null,
+    },
+  };
+};
+
+// Error for work abandoned because the client disconnected
+export const clientClosed = () =>
+  new HttpError(499, "Client closed request", "client_closed_request");
+
+/**
+ * Key identifying one cached generation of a video. Transcripts come from the
+ * client, so the key includes a hash of the exact transcript: a request with
+ * doctored captions for a video can't fill the cache other users are served.
+ */
+const buildCacheKey = (request: SummaryRequest, template: PromptTemplate | null): string => {
+  const { provider, model } = resolveModel(request.providerOptions);
+  const variant = request.segments ? "timed" : "plain";
+  const transcriptHash = crypto
+    .createHash("sha256")
+    .update(request.segments ? JSON.stringify(request.segments) : request.transcript)
+    .digest("hex");
+
+  return [
+    request.videoId,
+    transcriptHash,
+    PROMPT_VERSION,
+    provider,
+    model,
+    variant,
+    styleKey(request.styleOptions),
+    template ? `template@${template.id}@${template.version}` : "default",
+  ].join(":");
+};
+
+/**
+ * Load the template a request asks for
+ * @throws HttpError 404 when it doesn't exist or belongs to someone else
+ */
+const loadTemplate = async (
+  userId: string,
+  request: SummaryRequest
+): Promise<PromptTemplate | null> => {
+  if (!request.templateId) return null;
+
+  const template = await findTemplate(userId, request.templateId);
+  if (!template) {
+    throw new HttpError(404, "Prompt template not found", "template_not_found");
+  }
+  return template;
+};
+
+/**
+ * Look up the shared cache, swallowing DB errors so generation can proceed
+ */
+const findVideoSummary = async (cacheKey: string): Promise<VideoSummary | null> => {
+  try {
+    return await prisma.videoSummary.findUnique({ where: { cacheKey } });
+  } catch (dbError) {
+    console.error("Database error checking for existing summary:", dbError);
+    // Continue with summary generation even if DB lookup fails
+    return null;
+  }
+};
+
+/**
+ * Create the user's library entry from shared cached content
+ */
+const createLibraryEntry = (
+  client: Prisma.TransactionClient,
+  userId: string,
+  videoSummary: VideoSummary,
+  request: SummaryRequest
+) => {
+  const segments = (videoSummary.segments as unknown as TranscriptSegment[] | null) || null;
+
+  return client.summary.create({
+    data: {
+      userId,
+      videoSummaryId: videoSummary.id,
+      videoId: videoSummary.videoId,
+      videoUrl: request.videoUrl,
+      title: videoSummary.title,
+      keyPoints: videoSummary.keyPoints,
+      fullSummary: videoSummary.fullSummary,
+      keyPointStarts: videoSummary.keyPointStarts ?? undefined,
+      chapters: videoSummary.chapters ?? undefined,
+      topics: videoSummary.topics,
+      sentiment: videoSummary.sentiment,
+      style: videoSummary.style,
+      length: videoSummary.length,
+      language: videoSummary.language,
+      templateId: videoSummary.templateId,
+      templateVersion: videoSummary.templateVersion,
+      metadata: request.metadata,
+      transcript: videoSummary.transcript,
+      ...(segments && {
+        segments: {
+          create: segments.map((segment, position) => ({ position, ...segment })),
+        },
+      }),
+    },
+  });
+};
+
+/**
+ * Serve a cache hit: return the user's existing entry for free, otherwise add
+ * the cached summary to their library, charging per SUMMARY_CACHE_HIT_COST
+ */
+const serveCachedSummary = async (
+  userId: string,
+  videoSummary: VideoSummary,
+  request: SummaryRequest,
+  prepaid = false
+): Promise<SummaryResult> => {
+  const existing = await prisma.summary.findUnique({
+    where: { userId_videoSummaryId: { userId, videoSummaryId: videoSummary.id } },
+  });
+  if (existing) {
+    return { data: serializeSummary(existing), creditsCharged: 0, cached: true };
+  }
+
+  const reservation =
+    cacheConfig.hitCost > 0 && !prepaid
+      ? await reserveCredits(userId, cacheConfig.hitCost, "summary_cache_hit")
+      : null;
+
+  try {
+    const entry = await prisma.$transaction(async (tx) => {
+      const created = await createLibraryEntry(tx, userId, videoSummary, request);
+      if (reservation) await linkReservation(reservation, created.id, tx);
+      return created;
+    });
+    await indexSummaryEmbedding(entry);
+
+    return {
+      data: serializeSummary(entry),
+      creditsCharged: cacheConfig.hitCost,
+      cached: true,
+      ...(reservation && { creditsRemaining: reservation.balance }),
+    };
+  } catch (error) {
+    if (reservation) await refundCredits(reservation, "library_save_failed");
+    throw error;
+  }
+};
+
+/**
+ * Store a fresh generation in the shared cache and the user's library
+ * @returns The user's entry, and whether it was created by this call rather
+ * than by a concurrent request of the same user
+ */
+const saveGeneratedSummary = async (
+  userId: string,
+  request: SummaryRequest,
+  cacheKey: string,
+  summary: GeneratedSummary,
+  template: PromptTemplate | null,
+  reservation: CreditReservation | null
+) => {
+  const { provider, model } = resolveModel(request.providerOptions);
+  const chapters = summary.chapters?.map(({ title, start }) => ({ title, start }));
+  const segments = request.segments?.map(({ start, duration, text }) => ({ start, duration, text }));
+
+  const save = () =>
+    prisma.$transaction(async (tx) => {
+      // Another request may have cached the same video meanwhile; keep theirs
+      const videoSummary = await tx.videoSummary.upsert({
+        where: { cacheKey },
+        update: {},
+        create: {
+          cacheKey,
+          videoId: request.videoId,
+          promptVersion: PROMPT_VERSION,
+          provider,
+          model,
+          title: summary.title,
+          keyPoints: summary.keyPoints,
+          fullSummary: summary.fullSummary,
+          keyPointStarts: summary.keyPointStarts,
+          chapters,
+          topics: summary.topics,
+          sentiment: summary.sentiment,
+          ...request.styleOptions,
+          templateId: template?.id,
+          templateVersion: template?.version,
+          transcript: request.transcript,
+          segments,
+        },
+      });
+
+      const existing = await tx.summary.findUnique({
+        where: { userId_videoSummaryId: { userId, videoSummaryId: videoSummary.id } },
+      });
+      if (existing) return { entry: existing, created: false };
+
+      const entry = await createLibraryEntry(tx, userId, videoSummary, request);
+      if (reservation) await linkReservation(reservation, entry.id, tx);
+      return { entry, created: true };
+    });
+
+  try {
+    return await save();
+  } catch (error) {
+    // A concurrent request committed the same cache row or library entry
+    // first; trying again finds and keeps theirs
+    if (!isUniqueViolation(error)) throw error;
+    return save();
+  }
+};
+
+/**
+ * Serve a summary from the shared cache or reserve a credit, generate, and
+ * save it; the credit is refunded if generation fails or the caller aborts
+ * @param userId Owner of the library entry
+ * @param request Validated generate request
+ * @param hooks Optional streaming callback, abort signal and prepaid flag
+ * @returns The user's library entry and remaining credits when charged
+ */
+export const runSummaryPipeline = async (
+  userId: string,
+  request: SummaryRequest,
+  hooks: PipelineHooks = {}
+): Promise<SummaryResult> => {
+  const template = await loadTemplate(userId, request);
+  const cacheKey = buildCacheKey(request, template);
+
+  const videoSummary = await findVideoSummary(cacheKey);
+  if (videoSummary) {
+    return serveCachedSummary(userId, videoSummary, request, hooks.prepaid);
+  }
+
+  const { transcript, segments, metadata } = request;
+  const { onDelta, signal } = hooks;
+
+  // Take the credit up front; it is returned if generation doesn't complete
+  const reservation = hooks.prepaid
+    ? null
+    : await reserveCredits(userId, 1, "summary_generation");
+
+  let summary: GeneratedSummary;
+  try {
+    summary = await generateSummary(
+      segments || transcript,
+      metadata,
+      { ...request.providerOptions, ...request.styleOptions, template: template?.body },
+      onDelta &&
+        ((delta) => {
+          // Stop consuming the model stream once the caller has gone away
+          if (signal?.aborted) throw clientClosed();
+          onDelta(delta);
+        })
+    );
+
+    if (signal?.aborted) {
+      throw clientClosed();
+    }
+  } catch (error) {
+    if (reservation) await refundCredits(reservation, "generation_failed");
+    throw error;
+  }
+
+  // Save summary to the shared cache and the user's library; a summary that
+  // couldn't be saved isn't charged
+  let saved;
+  try {
+    saved = await saveGeneratedSummary(
+      userId,
+      request,
+      cacheKey,
+      summary,
+      template,
+      reservation
+    );
+  } catch (dbError) {
+    console.error("Database error saving summary:", dbError);
+    if (reservation) await refundCredits(reservation, "save_failed");
+    throw dbError;
+  }
+
+  // A concurrent request of the same user saved an entry first; they get
+  // that one, so this generation isn't charged
+  if (!saved.created) {
+    if (reservation) await refundCredits(reservation, "already_in_library");
+    return { data: serializeSummary(saved.entry), creditsCharged: 0, cached: true };
+  }
+
+  await indexSummaryEmbedding(saved.entry);
+
+  return {
+    data: serializeSummary(saved.entry),
+    ...(reservation && { creditsRemaining: reservation.balance }),
+    creditsCharged: 1,
+    cached: false,
+  };
+};
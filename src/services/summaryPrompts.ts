@@ -0,0 +1,267 @@
+// src/services/summaryPrompts.ts
+import { comparisonJsonSchema, summaryJsonSchema } from "./summaryResponse";
+import { StyleOptions, styleInstructions } from "./summaryStyles";
+import { renderTemplate } from "./promptTemplates";
+
+// Structured JSON is requested from providers that support a JSON mode;
+// the text layout is used otherwise and while streaming
+export type ResponseFormat = "text" | "json";
+
+export interface PromptOptions {
+  timed: boolean;
+  format: ResponseFormat;
+  style: StyleOptions;
+}
+
+// Bump whenever the prompts change so cached summaries from older prompts
+// are not served for new requests
+export const PROMPT_VERSION = "2026-10-v3";
+
+// Extra instructions used when transcript lines carry [m:ss] timestamps
+const TIMED_INSTRUCTIONS = `
+      Transcript lines start with [m:ss] timestamps.
+      Start every key point with the [m:ss] timestamp where it is discussed,
+      and split the video into 3-8 chapters, each starting with its [m:ss] timestamp.
+    `;
+
+const TIMED_FORMAT = `
+      CHAPTERS:
+      - [m:ss] Chapter title
+      - [m:ss] Chapter title
+      ...
+    `;
+
+/**
+ * Output instructions for the final summary in the requested format
+ */
+const formatInstructions = ({ timed, format }: PromptOptions): string =>
+  format === "json"
+    ? `
+      Respond with a single JSON object and nothing else. It must match this JSON Schema:
+      ${JSON.stringify(summaryJsonSchema(timed))}
+    `
+    : `
+      Format your response exactly as follows:
+      KEY POINTS:
+      - Point 1
+      - Point 2
+      - Point 3
+      ...
+      ${timed ? TIMED_FORMAT : ""}
+      SUMMARY:
+      Your summary here...
+    `;
+
+/**
+ * Build the prompt sent to the model for a single transcript
+ * @param transcript The video transcript text
+ * @param title Video title used for context
+ * @param options Whether the transcript is timed, the output format and the style to ask for
+ * @returns Prompt text
+ */
+export const buildSummaryPrompt = (
+  transcript: string,
+  title: string,
+  options: PromptOptions
+): string => `
+      You're a professional content summarizer specializing in YouTube videos.
+      Summarize the following transcript in a clear and engaging way.
+      ${options.timed ? TIMED_INSTRUCTIONS : ""}
+
+      Video Title: "${title}"
+
+      Transcript:
+      """
+      ${transcript}
+      """
+
+      Please provide:
+      ${styleInstructions(options.style)}
+      ${formatInstructions(options)}
+    `;
+
+/**
+ * Build the prompt for one part of a long transcript (map step). Part
+ * summaries are intermediate, so they always use the text layout.
+ */
+export const buildChunkPrompt = (
+  chunk: string,
+  title: string,
+  index: number,
+  total: number,
+  timed: boolean
+): string => `
+      You're summarizing part ${index + 1} of ${total} of a long YouTube video transcript.
+      Consecutive parts overlap slightly; focus on what is new in this part.
+      ${timed ? TIMED_INSTRUCTIONS : ""}
+
+      Video Title: "${title}"
+
+      Transcript part:
+      """
+      ${chunk}
+      """
+
+      Format your response exactly as follows:
+      KEY POINTS:
+      - Point 1
+      - Point 2
+      ...
+      ${timed ? TIMED_FORMAT : ""}
+      SUMMARY:
+      A paragraph (100-200 words) covering this part...
+    `;
+
+const formatParts = (partSummaries: string[]): string =>
+  partSummaries.map((part, i) => `Part ${i + 1}:\n${part.trim()}`).join("\n\n");
+
+/**
+ * Build the prompt that merges per-part summaries into one (reduce step)
+ */
+export const buildMergePrompt = (
+  partSummaries: string[],
+  title: string,
+  options: PromptOptions
+): string => `
+      You're a professional content summarizer specializing in YouTube videos.
+      Below are summaries of consecutive parts of one long video, in order.
+      Combine them into a single summary of the whole video, removing repetition.
+      ${options.timed ? "Keep the [m:ss] timestamps from the parts on key points and chapters." : ""}
+
+      Video Title: "${title}"
+
+      Part summaries:
+      """
+      ${formatParts(partSummaries)}
+      """
+
+      Please provide:
+      ${styleInstructions(options.style)}
+      ${formatInstructions(options)}
+    `;
+
+const CONDENSED_NOTE =
+  "The transcript was condensed into summaries of consecutive parts of a long video, in order.";
+
+/**
+ * Build the final prompt from a user's template. Style and length come from
+ * the template itself; the output format is still appended so the response
+ * can be parsed.
+ * @param template Template body with {{variable}} placeholders
+ * @param source Transcript, or part summaries (map step output) for long videos
+ * @param metadata Video metadata providing title and channel
+ * @param options Whether the source is timed, the output format and the language
+ * @returns Prompt text
+ */
+export const buildTemplatePrompt = (
+  template: string,
+  source: string | string[],
+  metadata: any,
+  options: PromptOptions
+): string => `
+      ${renderTemplate(template, {
+        title: metadata?.title || "Untitled video",
+        channel: metadata?.channel || metadata?.channelName || metadata?.author || "Unknown channel",
+        // Fenced so transcript text can't be mistaken for instructions
+        transcript: `"""\n${Array.isArray(source) ? formatParts(source) : source}\n"""`,
+        language: options.style.language || "the same language as the transcript",
+      })}
+      ${Array.isArray(source) ? CONDENSED_NOTE : ""}
+      ${options.timed ? TIMED_INSTRUCTIONS : ""}
+      ${formatInstructions(options)}
+    `;
+
+type SourceSummary = { title: string; keyPoints: string[]; fullSummary: string };
+
+// Numbered source summaries for digest and compare prompts
+const formatSummaries = (summaries: SourceSummary[]): string =>
+  summaries
+    .map(
+      (summary, i) =>
+        `Video ${i + 1}: ${summary.title}\n${summary.keyPoints
+          .map((point) => `- ${point}`)
+          .join("\n")}\n${summary.fullSummary.trim()}`
+    )
+    .join("\n\n");
+
+/**
+ * Build the prompt for a digest across several videos, e.g. a playlist
+ * @param summaries Summaries of the individual videos, in order
+ * @param title Name of the collection
+ * @param style Style, length and language to ask for
+ * @returns Prompt text
+ */
+export const buildDigestPrompt = (
+  summaries: SourceSummary[],
+  title: string,
+  style: StyleOptions
+): string => `
+      You're a professional content summarizer specializing in YouTube videos.
+      Below are summaries of ${summaries.length} related videos, in order.
+      Write one digest across all of them: the shared themes, how the videos build on
+      or disagree with each other, and the most important takeaways overall.
+      Refer to individual videos by their titles where it helps.
+
+      Collection: "${title}"
+
+      Video summaries:
+      """
+      ${formatSummaries(summaries)}
+      """
+
+      Please provide:
+      ${styleInstructions(style)}
+      ${formatInstructions({ timed: false, format: "text", style })}
+    `;
+
+/**
+ * Build the prompt comparing several saved summaries. Comparisons are always
+ * requested as JSON; providers without a JSON mode still get the schema.
+ * @param summaries Summaries to compare, numbered from 1 in the prompt
+ * @param language Output language, or null for the language of the summaries
+ * @returns Prompt text
+ */
+export const buildComparePrompt = (
+  summaries: SourceSummary[],
+  language: string | null
+): string => `
+      You're a research assistant comparing summaries of ${summaries.length} YouTube videos on a related topic.
+      Identify the themes they have in common, where they contradict or disagree with each other,
+      and the points only one of them makes. Refer to videos by their titles in the text.
+      ${language ? `Write in the language with BCP 47 tag "${language}".` : "Write in the language of the summaries."}
+
+      Video summaries:
+      """
+      ${formatSummaries(summaries)}
+      """
+
+      In "unique", "source" is the video number above.
+      Respond with a single JSON object and nothing else. It must match this JSON Schema:
+      ${JSON.stringify(comparisonJsonSchema(summaries.length))}
+    `;
+
+/**
+ * Build a follow-up prompt asking the model to fix JSON that failed validation
+ * @param invalidOutput The model's previous response
+ * @param errors Validation errors found in it
+ * @param schema JSON Schema the response must match, e.g. summaryJsonSchema
+ */
+export const buildRepairPrompt = (
+  invalidOutput: string,
+  errors: string[],
+  schema: object
+): string => `
+      Your previous response did not match the required JSON Schema.
+
+      Problems found:
+      ${errors.map((error) => `- ${error}`).join("\n      ")}
+
+      Previous response:
+      """
+      ${invalidOutput}
+      """
+
+      Return only the corrected JSON object, keeping the original content where possible.
+      It must match this JSON Schema:
+      ${JSON.stringify(schema)}
+    `;
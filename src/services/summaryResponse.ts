@@ -0,0 +1,259 @@
+// src/services/summaryResponse.ts
+
+export type Sentiment = "positive" | "neutral" | "negative" | "mixed";
+
+export const SENTIMENTS: Sentiment[] = ["positive", "neutral", "negative", "mixed"];
+
+export interface ParsedSummary {
+  // Title proposed by the model; only present in JSON responses
+  title?: string;
+  keyPoints: string[];
+  // "[m:ss] Chapter title" lines, only present for timed transcripts
+  chapterLines: string[];
+  fullSummary: string;
+  topics?: string[];
+  sentiment?: Sentiment;
+}
+
+/**
+ * JSON Schema the model is asked to follow in JSON mode
+ * @param timed Whether key points carry timestamps and chapters are required
+ */
+export const summaryJsonSchema = (timed: boolean) => ({
+  type: "object",
+  required: ["title", "keyPoints", "fullSummary", ...(timed ? ["chapters"] : [])],
+  properties: {
+    title: { type: "string", description: "Short descriptive title for the video" },
+    keyPoints: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "string",
+        ...(timed && { description: "Starts with the [m:ss] timestamp where it is discussed" }),
+      },
+    },
+    fullSummary: { type: "string", description: "Summary paragraph" },
+    ...(timed && {
+      chapters: {
+        type: "array",
+        items: { type: "string", description: "[m:ss] Chapter title" },
+      },
+    }),
+    topics: { type: "array", items: { type: "string" }, description: "Main topics, 1-3 words each" },
+    sentiment: { type: "string", enum: SENTIMENTS },
+  },
+});
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Pull a JSON object out of model output, tolerating code fences and
+ * surrounding prose
+ * @returns The parsed value, or undefined when no JSON object could be parsed
+ */
+export const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start < 0 || end <= start) return undefined;
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Check a parsed JSON response against summaryJsonSchema
+ * @param value Output of extractJson
+ * @param timed Whether chapters are required
+ * @returns The summary when valid, otherwise a list of problems to send back
+ * to the model
+ */
+export const validateSummaryJson = (
+  value: unknown,
+  timed: boolean
+): { summary?: ParsedSummary; errors: string[] } => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { errors: ["Response is not a JSON object"] };
+  }
+
+  const data = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof data.title !== "string" || !data.title.trim()) {
+    errors.push("title must be a non-empty string");
+  }
+  if (!isStringArray(data.keyPoints) || data.keyPoints.filter((p) => p.trim()).length === 0) {
+    errors.push("keyPoints must be a non-empty array of strings");
+  }
+  if (typeof data.fullSummary !== "string" || !data.fullSummary.trim()) {
+    errors.push("fullSummary must be a non-empty string");
+  }
+  if (timed && !isStringArray(data.chapters)) {
+    errors.push("chapters must be an array of strings");
+  } else if (data.chapters !== undefined && !isStringArray(data.chapters)) {
+    errors.push("chapters must be an array of strings");
+  }
+  if (data.topics !== undefined && !isStringArray(data.topics)) {
+    errors.push("topics must be an array of strings");
+  }
+  if (data.sentiment !== undefined && !SENTIMENTS.includes(data.sentiment as Sentiment)) {
+    errors.push(`sentiment must be one of: ${SENTIMENTS.join(", ")}`);
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const trimAll = (items: string[]) => items.map((item) => item.trim()).filter(Boolean);
+
+  return {
+    summary: {
+      title: (data.title as string).trim(),
+      keyPoints: trimAll(data.keyPoints as string[]),
+      chapterLines: trimAll((data.chapters as string[] | undefined) || []),
+      fullSummary: (data.fullSummary as string).trim(),
+      ...(data.topics !== undefined && { topics: trimAll(data.topics as string[]) }),
+      ...(data.sentiment !== undefined && { sentiment: data.sentiment as Sentiment }),
+    },
+    errors,
+  };
+};
+
+export interface ParsedComparison {
+  title: string;
+  commonThemes: string[];
+  contradictions: string[];
+  // Points only one video makes; source is the 1-based position of the video
+  unique: { source: number; points: string[] }[];
+  fullSummary: string;
+}
+
+/**
+ * JSON Schema for comparisons of several summaries
+ * @param sourceCount Number of videos being compared
+ */
+export const comparisonJsonSchema = (sourceCount: number) => ({
+  type: "object",
+  required: ["title", "commonThemes", "contradictions", "unique", "fullSummary"],
+  properties: {
+    title: { type: "string", description: "Short title for the comparison" },
+    commonThemes: { type: "array", items: { type: "string" } },
+    contradictions: {
+      type: "array",
+      items: { type: "string", description: "Where the videos disagree, naming each side" },
+    },
+    unique: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["source", "points"],
+        properties: {
+          source: { type: "integer", minimum: 1, maximum: sourceCount },
+          points: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+    fullSummary: { type: "string", description: "Synthesis of what the videos say together" },
+  },
+});
+
+/**
+ * Check a parsed JSON response against comparisonJsonSchema
+ * @param value Output of extractJson
+ * @param sourceCount Number of videos compared
+ * @returns The comparison when valid, otherwise a list of problems
+ */
+export const validateComparisonJson = (
+  value: unknown,
+  sourceCount: number
+): { comparison?: ParsedComparison; errors: string[] } => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { errors: ["Response is not a JSON object"] };
+  }
+
+  const data = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof data.title !== "string" || !data.title.trim()) {
+    errors.push("title must be a non-empty string");
+  }
+  if (!isStringArray(data.commonThemes)) {
+    errors.push("commonThemes must be an array of strings");
+  }
+  if (!isStringArray(data.contradictions)) {
+    errors.push("contradictions must be an array of strings");
+  }
+  if (
+    !Array.isArray(data.unique) ||
+    !data.unique.every(
+      (entry) =>
+        entry &&
+        Number.isInteger(entry.source) &&
+        entry.source >= 1 &&
+        entry.source <= sourceCount &&
+        isStringArray(entry.points)
+    )
+  ) {
+    errors.push(`unique must be an array of { source: 1-${sourceCount}, points: string[] }`);
+  }
+  if (typeof data.fullSummary !== "string" || !data.fullSummary.trim()) {
+    errors.push("fullSummary must be a non-empty string");
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const trimAll = (items: string[]) => items.map((item) => item.trim()).filter(Boolean);
+
+  return {
+    comparison: {
+      title: (data.title as string).trim(),
+      commonThemes: trimAll(data.commonThemes as string[]),
+      contradictions: trimAll(data.contradictions as string[]),
+      unique: (data.unique as { source: number; points: string[] }[])
+        .map(({ source, points }) => ({ source, points: trimAll(points) }))
+        .filter((entry) => entry.points.length > 0),
+      fullSummary: (data.fullSummary as string).trim(),
+    },
+    errors,
+  };
+};
+
+// Bulleted ("-", "*", "•") or numbered ("1.", "2)") list items, one per line
+const LIST_ITEM = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+const listItems = (block: string): string[] =>
+  block
+    .split("\n")
+    .reduce<string[]>((items, line) => {
+      if (LIST_ITEM.test(line)) {
+        items.push(line.replace(LIST_ITEM, "").trim());
+      } else if (line.trim() && items.length > 0) {
+        // Wrapped continuation of the previous item
+        items[items.length - 1] += ` ${line.trim()}`;
+      }
+      return items;
+    }, [])
+    .filter((item) => item.length > 0);
+
+/**
+ * Parse the KEY POINTS / CHAPTERS / SUMMARY text layout, used for providers
+ * without a JSON mode and for streamed responses. Items are split per line,
+ * so hyphens inside a key point are preserved.
+ * @param text Raw model output
+ * @returns Extracted key points, chapter lines and summary text
+ */
+export const parseTextResponse = (text: string): ParsedSummary => {
+  const keyPointsMatch = text.match(/KEY POINTS:([\s\S]*?)(?=CHAPTERS:|SUMMARY:|$)/i);
+  const chaptersMatch = text.match(/CHAPTERS:([\s\S]*?)(?=SUMMARY:|$)/i);
+  const summaryMatch = text.match(/SUMMARY:([\s\S]*?)$/i);
+
+  return {
+    keyPoints: keyPointsMatch ? listItems(keyPointsMatch[1]) : [],
+    chapterLines: chaptersMatch ? listItems(chaptersMatch[1]) : [],
+    // Extract full summary
+    fullSummary: summaryMatch ? summaryMatch[1].trim() : text.trim(),
+  };
+};
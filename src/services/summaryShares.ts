@@ -0,0 +1,200 @@
+// src/services/summaryShares.ts
+import { randomBytes } from "crypto";
+import { Summary, SummaryShare } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { shareConfig } from "../config/share";
+import { Chapter } from "./transcriptSegments";
+import { HttpError } from "../utils/httpError";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a share request body. Links expire after `expiresInDays`, at
+ * `expiresAt`, or never when neither is given.
+ * @returns The expiry (null for none), or an error message for a 400 response
+ */
+export const parseShareRequest = (
+  body: any
+): { expiresAt?: Date | null; error?: string } => {
+  const { expiresInDays, expiresAt } = body || {};
+  const maxDays = shareConfig.maxExpiryDays;
+
+  if (expiresInDays !== undefined && expiresAt !== undefined) {
+    return { error: "Provide either expiresInDays or expiresAt, not both" };
+  }
+
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (typeof expiresInDays !== "number" || !(expiresInDays > 0) || expiresInDays > maxDays) {
+      return { error: `expiresInDays must be greater than 0 and at most ${maxDays}` };
+    }
+    return { expiresAt: new Date(Date.now() + expiresInDays * DAY_MS) };
+  }
+
+  if (expiresAt !== undefined && expiresAt !== null) {
+    const date = new Date(String(expiresAt));
+    if (isNaN(date.getTime())) {
+      return { error: "expiresAt must be an ISO 8601 date" };
+    }
+    if (date.getTime() <= Date.now()) {
+      return { error: "expiresAt must be in the future" };
+    }
+    if (date.getTime() > Date.now() + maxDays * DAY_MS) {
+      return { error: `expiresAt must be within ${maxDays} days` };
+    }
+    return { expiresAt: date };
+  }
+
+  return { expiresAt: null };
+};
+
+const shareStatus = (share: SummaryShare): "active" | "revoked" | "expired" =>
+  share.revokedAt
+    ? "revoked"
+    : share.expiresAt && share.expiresAt.getTime() <= Date.now()
+      ? "expired"
+      : "active";
+
+/**
+ * Share link as shown to its owner
+ * @param origin Origin the public route is served from
+ */
+export const serializeShare = (share: SummaryShare, origin: string) => ({
+  id: share.id,
+  token: share.token,
+  url: `${shareConfig.baseUrl || origin}/api/public/summaries/${share.token}`,
+  status: shareStatus(share),
+  expiresAt: share.expiresAt,
+  revokedAt: share.revokedAt,
+  viewCount: share.viewCount,
+  lastViewedAt: share.lastViewedAt,
+  createdAt: share.createdAt,
+});
+
+/**
+ * Read-only view of a shared summary: no transcript, owner or library
+ * organization
+ */
+export const serializePublicSummary = (summary: Omit<Summary, "embedding">) => ({
+  videoId: summary.videoId,
+  title: summary.title,
+  keyPoints: summary.keyPoints,
+  keyPointStarts: summary.keyPointStarts as (number | null)[] | null,
+  chapters: summary.chapters as unknown as Chapter[] | null,
+  topics: summary.topics,
+  language: summary.language,
+  fullSummary: summary.fullSummary,
+  sourceUrl: summary.videoUrl,
+  createdAt: summary.createdAt,
+});
+
+const assertSummaryOwned = async (userId: string, summaryId: string): Promise<void> => {
+  const summary = await prisma.summary.findFirst({
+    where: { id: summaryId, userId },
+    select: { id: true },
+  });
+  if (!summary) {
+    throw new HttpError(404, "Summary not found", "summary_not_found");
+  }
+};
+
+/**
+ * Create a public link to one of the user's summaries
+ * @param expiresAt When the link stops working, or null for never
+ * @throws HttpError 404 when the summary doesn't belong to the user, 409
+ * when it already has the maximum number of active links
+ */
+export const createShare = async (
+  userId: string,
+  summaryId: string,
+  expiresAt: Date | null
+): Promise<SummaryShare> => {
+  await assertSummaryOwned(userId, summaryId);
+
+  const active = await prisma.summaryShare.count({
+    where: {
+      summaryId,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+  });
+  if (active >= shareConfig.maxLinksPerSummary) {
+    throw new HttpError(
+      409,
+      `A summary can have at most ${shareConfig.maxLinksPerSummary} active share links`,
+      "share_limit_reached"
+    );
+  }
+
+  return prisma.summaryShare.create({
+    data: {
+      summaryId,
+      token: randomBytes(24).toString("base64url"),
+      expiresAt,
+    },
+  });
+};
+
+/**
+ * List the share links of one of the user's summaries, newest first
+ * @throws HttpError 404 when the summary doesn't belong to the user
+ */
+export const listShares = async (userId: string, summaryId: string): Promise<SummaryShare[]> => {
+  await assertSummaryOwned(userId, summaryId);
+
+  return prisma.summaryShare.findMany({
+    where: { summaryId },
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+/**
+ * Revoke a share link; the record is kept so its view count stays visible
+ * @throws HttpError 404 when the link doesn't exist on the user's summary
+ */
+export const revokeShare = async (
+  userId: string,
+  summaryId: string,
+  shareId: string
+): Promise<SummaryShare> => {
+  const share = await prisma.summaryShare.findFirst({
+    where: { id: shareId, summaryId, summary: { userId } },
+  });
+  if (!share) {
+    throw new HttpError(404, "Share link not found", "share_not_found");
+  }
+  if (share.revokedAt) return share;
+
+  return prisma.summaryShare.update({
+    where: { id: share.id },
+    data: { revokedAt: new Date() },
+  });
+};
+
+/**
+ * Resolve a public share token and count the view
+ * @returns The shared summary
+ * @throws HttpError 404 for unknown tokens, 410 for revoked or expired links
+ */
+export const viewSharedSummary = async (
+  token: string
+): Promise<Omit<Summary, "embedding">> => {
+  const share = await prisma.summaryShare.findUnique({
+    where: { token },
+    include: { summary: { omit: { embedding: true } } },
+  });
+  if (!share) {
+    throw new HttpError(404, "Share link not found", "share_not_found");
+  }
+
+  const status = shareStatus(share);
+  if (status !== "active") {
+    throw new HttpError(410, `This share link has ${status}`, `share_${status}`);
+  }
+
+  await prisma.summaryShare.update({
+    where: { id: share.id },
+    data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+  });
+
+  return share.summary;
+};
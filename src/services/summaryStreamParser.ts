@@ -0,0 +1,83 @@
+// src/services/summaryStreamParser.ts
+import { stripTimestamp } from "./transcriptSegments";
+
+export interface StreamedKeyPoint {
+  index: number;
+  text: string;
+  start: number | null;
+}
+
+export interface SummaryStreamHandlers {
+  onKeyPoint: (keyPoint: StreamedKeyPoint) => void;
+  onSummaryDelta: (delta: string) => void;
+}
+
+type Section = "preamble" | "keyPoints" | "chapters" | "summary";
+
+/**
+ * Incrementally parse KEY POINTS / CHAPTERS / SUMMARY output as it streams
+ * in, reporting each key point once its line is complete and forwarding
+ * summary text as soon as it arrives
+ * @param handlers Callbacks for parsed key points and summary text
+ * @returns push() for each model delta and end() once the stream finishes
+ */
+export const createSummaryStreamParser = (handlers: SummaryStreamHandlers) => {
+  let section: Section = "preamble";
+  let buffer = "";
+  let keyPointIndex = 0;
+
+  // Read through a function so narrowing doesn't survive handleLine() calls
+  const inSummary = () => section === "summary";
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+
+    if (/^KEY POINTS:/i.test(trimmed)) {
+      section = "keyPoints";
+      return;
+    }
+    if (/^CHAPTERS:/i.test(trimmed)) {
+      section = "chapters";
+      return;
+    }
+    if (/^SUMMARY:/i.test(trimmed)) {
+      section = "summary";
+      const rest = trimmed.replace(/^SUMMARY:\s*/i, "");
+      if (rest) handlers.onSummaryDelta(rest);
+      return;
+    }
+
+    if (section === "keyPoints" && trimmed.startsWith("-")) {
+      const { text, start } = stripTimestamp(trimmed.replace(/^-\s*/, ""));
+      if (text) handlers.onKeyPoint({ index: keyPointIndex++, text, start });
+    }
+  };
+
+  return {
+    push(delta: string) {
+      if (inSummary()) {
+        handlers.onSummaryDelta(delta);
+        return;
+      }
+
+      buffer += delta;
+      let newline = buffer.indexOf("\n");
+      while (!inSummary() && newline >= 0) {
+        handleLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+
+      // Whatever follows the SUMMARY: line is summary text
+      if (inSummary() && buffer) {
+        handlers.onSummaryDelta(buffer);
+        buffer = "";
+      }
+    },
+
+    end() {
+      if (buffer) handleLine(buffer);
+      buffer = "";
+    },
+  };
+};
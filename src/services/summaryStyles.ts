@@ -0,0 +1,149 @@
+// src/services/summaryStyles.ts
+import { ProviderOptions } from "./llm";
+
+export type SummaryStyle =
+  | "bullet_brief"
+  | "detailed_notes"
+  | "study_guide"
+  | "tweet_thread"
+  | "executive_summary";
+
+export type SummaryLength = "short" | "medium" | "long";
+
+export const SUMMARY_STYLES: SummaryStyle[] = [
+  "bullet_brief",
+  "detailed_notes",
+  "study_guide",
+  "tweet_thread",
+  "executive_summary",
+];
+
+export const SUMMARY_LENGTHS: SummaryLength[] = ["short", "medium", "long"];
+
+// How the summary should read; stored with the summary and part of the cache key
+export interface StyleOptions {
+  style: SummaryStyle;
+  length: SummaryLength;
+  // BCP 47 language tag, or null to answer in the transcript's language
+  language: string | null;
+}
+
+// Provider overrides plus style options, as accepted by generateSummary
+export type SummaryOptions = ProviderOptions & Partial<StyleOptions>;
+
+export const DEFAULT_STYLE_OPTIONS: StyleOptions = {
+  style: "bullet_brief",
+  length: "medium",
+  language: null,
+};
+
+interface StyleGuide {
+  keyPoints: string;
+  summary: string;
+}
+
+// What the key points and the summary text should contain for each style
+const STYLE_GUIDES: Record<SummaryStyle, StyleGuide> = {
+  bullet_brief: {
+    keyPoints: "3-5 key points from the video (the most important takeaways)",
+    summary: "A concise but comprehensive summary paragraph that captures the main ideas",
+  },
+  detailed_notes: {
+    keyPoints: "6-10 detailed key points, each with the supporting facts, figures or examples",
+    summary: "Detailed notes following the structure of the video, section by section",
+  },
+  study_guide: {
+    keyPoints: "5-8 key concepts, each stated as a term followed by a short definition",
+    summary:
+      "A study guide explaining the concepts in order, ending with 3-5 review questions",
+  },
+  tweet_thread: {
+    keyPoints: "4-8 tweets forming a thread, each under 280 characters",
+    summary: "The whole thread as one text, tweets numbered 1/, 2/, ... in order",
+  },
+  executive_summary: {
+    keyPoints: "3-5 takeaways for a busy decision maker (conclusions, risks, recommended actions)",
+    summary:
+      "An executive summary that leads with the bottom line, then the supporting context",
+  },
+};
+
+const LENGTH_WORDS: Record<SummaryLength, string> = {
+  short: "100-150",
+  medium: "250-350",
+  long: "500-700",
+};
+
+/**
+ * Prompt lines describing the requested style, length and language
+ * @param options Resolved style options
+ * @returns The "Please provide" list for the final summary prompt
+ */
+export const styleInstructions = ({ style, length, language }: StyleOptions): string => {
+  const guide = STYLE_GUIDES[style];
+  const lines = [
+    `1. ${guide.keyPoints}`,
+    `2. ${guide.summary} (${LENGTH_WORDS[length]} words)`,
+  ];
+  if (language) {
+    lines.push(
+      `Write all content in the language with BCP 47 tag "${language}", translating if needed. Keep section labels and JSON keys in English.`
+    );
+  }
+  return lines.join("\n      ");
+};
+
+/**
+ * Cache key segment identifying a style variant
+ */
+export const styleKey = ({ style, length, language }: StyleOptions): string =>
+  [style, length, language || "auto"].join(":");
+
+// Loose BCP 47 check: primary language plus optional script/region subtags
+const LANGUAGE_TAG = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+
+/**
+ * Validate style, length and language supplied in a request body
+ * @param raw Untrusted `options` object from the request
+ * @returns The options with defaults applied, or an error message for a 400 response
+ */
+export const parseStyleOptions = (
+  raw: any
+): { options: StyleOptions; error?: string } => {
+  const options: StyleOptions = { ...DEFAULT_STYLE_OPTIONS };
+  if (raw === undefined || raw === null || typeof raw !== "object") return { options };
+
+  if (raw.style !== undefined) {
+    if (!SUMMARY_STYLES.includes(raw.style)) {
+      return {
+        options,
+        error: `Unknown style. Expected one of: ${SUMMARY_STYLES.join(", ")}`,
+      };
+    }
+    options.style = raw.style;
+  }
+
+  if (raw.length !== undefined) {
+    if (!SUMMARY_LENGTHS.includes(raw.length)) {
+      return {
+        options,
+        error: `Unknown length. Expected one of: ${SUMMARY_LENGTHS.join(", ")}`,
+      };
+    }
+    options.length = raw.length;
+  }
+
+  if (raw.language !== undefined && raw.language !== null && raw.language !== "auto") {
+    if (typeof raw.language !== "string" || !LANGUAGE_TAG.test(raw.language.trim())) {
+      return { options, error: 'options.language must be a language tag such as "en" or "pt-BR"' };
+    }
+    // Normalize case so "EN-us" and "en-US" share a cache entry
+    const [primary, ...subtags]: string[] = raw.language.trim().split("-");
+    options.language = [
+      primary.toLowerCase(),
+      ...subtags.map((tag) => (tag.length === 2 ? tag.toUpperCase() : tag.toLowerCase())),
+    ].join("-");
+  }
+
+  return { options };
+};
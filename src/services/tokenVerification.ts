@@ -0,0 +1,282 @@
+// src/services/tokenVerification.ts
+import { createHash, createPublicKey, KeyObject } from "crypto";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import { User as SupabaseUser } from "@supabase/supabase-js";
+import { authConfig } from "../config/auth";
+import supabase from "../config/supabaseClient";
+import { HttpError } from "../utils/httpError";
+
+// Identity and profile fields carried by a verified access token
+export interface VerifiedClaims {
+  id: string;
+  email: string;
+  name: string | null;
+  imageUrl: string | null;
+  provider: string | null;
+  // Supabase session the token belongs to
+  sessionId: string | null;
+  // Seconds since the epoch
+  issuedAt: number | null;
+}
+
+export type SignOutScope = "local" | "global";
+
+interface CachedToken {
+  claims: VerifiedClaims;
+  expiresAt: number;
+}
+
+const ASYMMETRIC_ALGORITHMS = ["RS256", "ES256", "EdDSA"] as const;
+
+const invalidToken = (message = "Invalid or expired token") =>
+  new HttpError(401, message, "invalid_token");
+
+// Keyed by a hash of the token so raw credentials aren't held in memory
+const verifiedTokens = new Map<string, CachedToken>();
+
+const tokenKey = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+const cacheClaims = (token: string, claims: VerifiedClaims, tokenExpiresAt: number | null) => {
+  if (authConfig.tokenCacheTtlMs <= 0) return;
+  const expiresAt = Math.min(
+    Date.now() + authConfig.tokenCacheTtlMs,
+    tokenExpiresAt ?? Number.POSITIVE_INFINITY
+  );
+  if (expiresAt <= Date.now()) return;
+
+  // Maps iterate in insertion order, so the first key is the oldest entry
+  while (verifiedTokens.size >= authConfig.tokenCacheMaxEntries) {
+    verifiedTokens.delete(verifiedTokens.keys().next().value!);
+  }
+  verifiedTokens.set(tokenKey(token), { claims, expiresAt });
+};
+
+const cachedClaims = (token: string): VerifiedClaims | null => {
+  const key = tokenKey(token);
+  const entry = verifiedTokens.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    verifiedTokens.delete(key);
+    return null;
+  }
+  return entry.claims;
+};
+
+// Signed-out sessions and users, until every token they cover has expired.
+// Kept in process memory: other instances keep accepting those tokens until
+// they expire unless verifyMode is "remote".
+const revokedSessions = new Map<string, number>();
+const revokedUsers = new Map<string, { before: number; until: number }>();
+
+const pruneRevocations = () => {
+  const now = Date.now();
+  revokedSessions.forEach((until, id) => {
+    if (until <= now) revokedSessions.delete(id);
+  });
+  revokedUsers.forEach(({ until }, id) => {
+    if (until <= now) revokedUsers.delete(id);
+  });
+};
+
+const isRevoked = (claims: VerifiedClaims): boolean => {
+  if (claims.sessionId && revokedSessions.has(claims.sessionId)) return true;
+  const user = revokedUsers.get(claims.id);
+  return !!user && (claims.issuedAt === null || claims.issuedAt * 1000 <= user.before);
+};
+
+/**
+ * Stop accepting tokens of a signed-out session, or of every session of the
+ * user for a global sign-out
+ * @param claims Claims of the token used to sign out
+ * @param scope "local" for this session only, "global" for all sessions
+ */
+export const revokeTokens = (claims: VerifiedClaims, scope: SignOutScope): void => {
+  pruneRevocations();
+  const until = Date.now() + authConfig.maxTokenLifetimeMs;
+
+  if (scope === "global" || !claims.sessionId) {
+    revokedUsers.set(claims.id, { before: Date.now(), until });
+  } else {
+    revokedSessions.set(claims.sessionId, until);
+  }
+
+  verifiedTokens.forEach((entry, key) => {
+    if (isRevoked(entry.claims)) verifiedTokens.delete(key);
+  });
+};
+
+/**
+ * Drop a token from the verified-token cache, e.g. when its session is
+ * signed out, so the next request verifies it again
+ */
+export const forgetVerifiedToken = (token: string): void => {
+  verifiedTokens.delete(tokenKey(token));
+};
+
+const claimsFromPayload = (payload: JwtPayload): VerifiedClaims => {
+  const metadata = payload.user_metadata || {};
+  return {
+    id: payload.sub!,
+    email: payload.email || "",
+    name: metadata.full_name || metadata.name || null,
+    imageUrl: metadata.avatar_url || metadata.picture || null,
+    provider: metadata.provider || payload.app_metadata?.provider || null,
+    sessionId: payload.session_id || null,
+    issuedAt: payload.iat ?? null,
+  };
+};
+
+// Supabase's user record is authoritative for the profile; the session
+// fields still come from the token
+const claimsFromUser = (user: SupabaseUser, payload: JwtPayload | null): VerifiedClaims => ({
+  id: user.id,
+  email: user.email || "",
+  name: user.user_metadata?.full_name || user.user_metadata?.name || null,
+  imageUrl: user.user_metadata?.avatar_url || user.user_metadata?.picture || null,
+  provider: user.user_metadata?.provider || user.app_metadata?.provider || null,
+  sessionId: payload?.session_id || null,
+  issuedAt: payload?.iat ?? null,
+});
+
+let jwks: { keys: Map<string, KeyObject>; fetchedAt: number } | null = null;
+let jwksRequest: Promise<void> | null = null;
+
+const loadJwks = async (): Promise<void> => {
+  const response = await fetch(authConfig.jwksUrl!, { signal: AbortSignal.timeout(5000) });
+  if (!response.ok) throw new Error(`JWKS request failed with status ${response.status}`);
+  const body = (await response.json()) as { keys?: (Record<string, any> & { kid?: string })[] };
+
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of body.keys || []) {
+    if (!jwk.kid) continue;
+    try {
+      keys.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" }));
+    } catch (error) {
+      console.error(`Skipping unreadable JWKS key ${jwk.kid}:`, error);
+    }
+  }
+  jwks = { keys, fetchedAt: Date.now() };
+};
+
+/**
+ * Public key for a key id, refetching the key set when it's stale or the id
+ * is unknown (keys are rotated). Refetches for unknown ids are limited to one
+ * per minute so forged key ids can't hammer the endpoint.
+ * @returns The key, or null when the key set doesn't contain it
+ */
+const signingKey = async (kid: string): Promise<KeyObject | null> => {
+  const age = jwks ? Date.now() - jwks.fetchedAt : Number.POSITIVE_INFINITY;
+  const known = jwks?.keys.get(kid);
+  if (known && age < authConfig.jwksCacheTtlMs) return known;
+
+  if (age >= 60_000) {
+    jwksRequest ??= loadJwks().finally(() => {
+      jwksRequest = null;
+    });
+    try {
+      await jwksRequest;
+    } catch (error) {
+      console.error("Failed to fetch JWKS:", error);
+    }
+  }
+  return jwks?.keys.get(kid) ?? known ?? null;
+};
+
+/**
+ * Key to check a token's signature with, based on its header
+ * @returns The key, or null when none is configured or published for it
+ */
+const verificationKey = async (header: jwt.JwtHeader): Promise<string | KeyObject | null> => {
+  if (header.alg === "HS256") return authConfig.jwtSecret ?? null;
+  if ((ASYMMETRIC_ALGORITHMS as readonly string[]).includes(header.alg) && header.kid) {
+    return authConfig.jwksUrl ? signingKey(header.kid) : null;
+  }
+  return null;
+};
+
+/**
+ * Verify a token's signature and standard claims in-process
+ * @returns The claims and token expiry, or null when no key is available and
+ * Supabase has to be asked instead
+ * @throws HttpError 401 for bad signatures, expired or malformed tokens
+ */
+const verifyLocally = async (
+  token: string
+): Promise<{ claims: VerifiedClaims; expiresAt: number | null } | null> => {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") throw invalidToken();
+
+  const key = await verificationKey(decoded.header);
+  if (!key) return null;
+
+  let payload: JwtPayload;
+  try {
+    payload = jwt.verify(token, key, {
+      algorithms: [decoded.header.alg as jwt.Algorithm],
+      audience: authConfig.audience,
+      issuer: authConfig.issuer,
+      clockTolerance: authConfig.clockToleranceSeconds,
+    }) as JwtPayload;
+  } catch (error) {
+    throw invalidToken(
+      error instanceof jwt.TokenExpiredError ? "Token has expired" : "Invalid or expired token"
+    );
+  }
+  if (!payload.sub) throw invalidToken();
+
+  return {
+    claims: claimsFromPayload(payload),
+    expiresAt: payload.exp ? payload.exp * 1000 : null,
+  };
+};
+
+/**
+ * Verify a token with Supabase, which also rejects tokens whose session was
+ * revoked. Bypasses and refreshes the verified-token cache.
+ * @returns The token's claims
+ * @throws HttpError 401 when Supabase rejects the token
+ */
+export const verifyAccessTokenRemotely = async (token: string): Promise<VerifiedClaims> => {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    forgetVerifiedToken(token);
+    throw invalidToken();
+  }
+
+  const decoded = jwt.decode(token);
+  const payload = decoded && typeof decoded !== "string" ? decoded : null;
+  const claims = claimsFromUser(user, payload);
+  if (isRevoked(claims)) throw invalidToken();
+
+  cacheClaims(token, claims, payload?.exp ? payload.exp * 1000 : null);
+  return claims;
+};
+
+/**
+ * Verify a Supabase access token. Recently verified tokens are answered from
+ * an in-process cache; others are checked locally against the JWT secret or
+ * JWKS, with Supabase as the fallback when no key applies (or for every
+ * token in "remote" mode). Tokens of sessions signed out through this
+ * server are rejected.
+ * @returns The token's user id and profile claims
+ * @throws HttpError 401 when the token is invalid or expired
+ */
+export const verifyAccessToken = async (token: string): Promise<VerifiedClaims> => {
+  const cached = cachedClaims(token);
+  if (cached) return cached;
+
+  if (authConfig.verifyMode === "local") {
+    const verified = await verifyLocally(token);
+    if (verified) {
+      if (isRevoked(verified.claims)) throw invalidToken();
+      cacheClaims(token, verified.claims, verified.expiresAt);
+      return verified.claims;
+    }
+  }
+
+  return verifyAccessTokenRemotely(token);
+};
@@ -0,0 +1,145 @@
+// src/services/transcriptSegments.ts
+
+export interface TranscriptSegment {
+  start: number;
+  duration: number;
+  text: string;
+}
+
+export interface Chapter {
+  title: string;
+  start: number;
+}
+
+// Consecutive captions are merged into prompt lines of roughly this length
+const LINE_SECONDS = 30;
+
+const TIMESTAMP_PREFIX = /^\s*\[((?:\d+:)?\d{1,2}:\d{2})\]\s*/;
+
+/**
+ * Validate caption segments supplied by a client
+ * @param raw Untrusted request value
+ * @returns Clean segments, or null when the value is not a valid segment list
+ */
+export const parseSegments = (raw: unknown): TranscriptSegment[] | null => {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+
+  const segments: TranscriptSegment[] = [];
+  for (const item of raw) {
+    if (
+      !item ||
+      typeof item.text !== "string" ||
+      typeof item.start !== "number" ||
+      !Number.isFinite(item.start) ||
+      item.start < 0
+    ) {
+      return null;
+    }
+
+    const duration =
+      typeof item.duration === "number" && Number.isFinite(item.duration) && item.duration >= 0
+        ? item.duration
+        : 0;
+
+    const text = item.text.trim();
+    if (text) segments.push({ start: item.start, duration, text });
+  }
+
+  return segments.length > 0 ? segments.sort((a, b) => a.start - b.start) : null;
+};
+
+/**
+ * Join segments into plain transcript text
+ */
+export const segmentsToText = (segments: TranscriptSegment[]): string =>
+  segments.map((segment) => segment.text).join(" ");
+
+/**
+ * Format seconds as m:ss or h:mm:ss
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+/**
+ * Parse m:ss or h:mm:ss into seconds
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const parts = value.split(":").map(Number);
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+  return parts.reduce((acc, part) => acc * 60 + part, 0);
+};
+
+/**
+ * Render segments as `[m:ss] text` lines so the model can refer to times
+ * @param segments Caption segments ordered by start time
+ * @returns Transcript text with a timestamp at the start of each line
+ */
+export const renderTimedTranscript = (segments: TranscriptSegment[]): string => {
+  const lines: string[] = [];
+  let lineStart = segments[0].start;
+  let texts: string[] = [];
+
+  for (const segment of segments) {
+    if (texts.length > 0 && segment.start - lineStart >= LINE_SECONDS) {
+      lines.push(`[${formatTimestamp(lineStart)}] ${texts.join(" ")}`);
+      lineStart = segment.start;
+      texts = [];
+    }
+    texts.push(segment.text);
+  }
+  if (texts.length > 0) lines.push(`[${formatTimestamp(lineStart)}] ${texts.join(" ")}`);
+
+  return lines.join("\n");
+};
+
+/**
+ * Split a leading `[m:ss]` marker off a line of model output
+ * @returns The remaining text and the parsed start time, if any
+ */
+export const stripTimestamp = (line: string): { text: string; start: number | null } => {
+  const match = line.match(TIMESTAMP_PREFIX);
+  if (!match) return { text: line.trim(), start: null };
+  return { text: line.slice(match[0].length).trim(), start: parseTimestamp(match[1]) };
+};
+
+/**
+ * Distinctive lowercase words of a text (longer words and numbers), used for
+ * fuzzy matching against transcript wording
+ */
+export const tokenize = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 3 || /^\d+$/.test(word))
+  );
+
+/**
+ * Find the segment whose wording best matches a piece of generated text,
+ * used when the model did not give a timestamp itself
+ * @returns Start time of the best matching segment, or null when nothing overlaps
+ */
+export const alignToSegments = (text: string, segments: TranscriptSegment[]): number | null => {
+  const words = tokenize(text);
+  if (words.size === 0) return null;
+
+  let best: { start: number; score: number } | null = null;
+  for (const segment of segments) {
+    let score = 0;
+    for (const word of tokenize(segment.text)) {
+      if (words.has(word)) score++;
+    }
+    if (score > 0 && (!best || score > best.score)) {
+      best = { start: segment.start, score };
+    }
+  }
+
+  return best ? best.start : null;
+};
@@ -0,0 +1,296 @@
+// src/services/videoChat.ts
+import { ChatMessage, Prisma, Summary, SummarySegment } from "@prisma/client";
+import prisma from "../config/prismaClient";
+import { chatConfig } from "../config/chat";
+import { BadResponseError, complete, parseProviderOptions, ProviderOptions } from "./llm";
+import { chunkTranscript, estimateTokens } from "./chunkTranscript";
+import { linkReservation, refundCredits, reserveCredits } from "./credits";
+import { clientClosed, PipelineHooks } from "./summaryPipeline";
+import {
+  formatTimestamp,
+  renderTimedTranscript,
+  stripTimestamp,
+  tokenize,
+} from "./transcriptSegments";
+import { HttpError } from "../utils/httpError";
+
+export interface ChatRequest {
+  question: string;
+  providerOptions: ProviderOptions;
+}
+
+// Transcript excerpt shown to the model, numbered from 1 for citations
+interface Excerpt {
+  index: number;
+  text: string;
+  start: number | null;
+}
+
+export interface Citation {
+  excerpt: number;
+  text: string;
+  start: number | null;
+}
+
+export interface ChatAnswer {
+  question: SerializedChatMessage;
+  answer: SerializedChatMessage;
+  creditsRemaining: number;
+}
+
+export type SerializedChatMessage = ReturnType<typeof serializeChatMessage>;
+
+export const serializeChatMessage = (message: ChatMessage) => ({
+  id: message.id,
+  role: message.role,
+  content: message.content,
+  citations: (message.citations as unknown as Citation[] | null) || [],
+  createdAt: message.createdAt,
+});
+
+/**
+ * Validate a chat request body
+ * @param body Untrusted request body with question and options
+ * @returns The normalized request, or an error message for a 400 response
+ */
+export const parseChatRequest = (body: any): { request?: ChatRequest; error?: string } => {
+  const { question } = body || {};
+
+  if (typeof question !== "string" || !question.trim()) {
+    return { error: "question is required" };
+  }
+  if (question.length > chatConfig.maxQuestionLength) {
+    return { error: `question must be at most ${chatConfig.maxQuestionLength} characters` };
+  }
+
+  const { options: providerOptions, error } = parseProviderOptions(body.options);
+  if (error) {
+    return { error };
+  }
+
+  return { request: { question: question.trim(), providerOptions } };
+};
+
+/**
+ * Load a library entry owned by the user, with its caption segments
+ * @throws HttpError 404 when it doesn't exist or belongs to someone else
+ */
+const findOwnedSummary = async (userId: string, summaryId: string) => {
+  const summary = await prisma.summary.findFirst({
+    where: { id: summaryId, userId },
+    include: { segments: { orderBy: { position: "asc" } } },
+  });
+  if (!summary) {
+    throw new HttpError(404, "Summary not found", "summary_not_found");
+  }
+  return summary;
+};
+
+/**
+ * Split the stored transcript into excerpts: 30-second timed lines when
+ * caption segments were saved, sentence-aligned chunks otherwise
+ */
+const splitExcerpts = (summary: Summary & { segments: SummarySegment[] }) =>
+  summary.segments.length > 0
+    ? renderTimedTranscript(summary.segments).split("\n").map(stripTimestamp)
+    : chunkTranscript(summary.transcript, chatConfig.excerptTokens, 0).map((text) => ({
+        text,
+        start: null as number | null,
+      }));
+
+/**
+ * Pick the excerpts to send with a question. Short transcripts are sent
+ * whole; longer ones are narrowed to the excerpts sharing the most words
+ * with the question, kept in transcript order.
+ */
+const selectExcerpts = (
+  excerpts: { text: string; start: number | null }[],
+  query: string
+): Excerpt[] => {
+  const total = excerpts.reduce((sum, excerpt) => sum + estimateTokens(excerpt.text), 0);
+  let selected = excerpts.map((excerpt, position) => ({ ...excerpt, position }));
+
+  if (total > chatConfig.contextTokens) {
+    const words = tokenize(query);
+    const scored = selected
+      .map((excerpt) => ({
+        ...excerpt,
+        score: Array.from(tokenize(excerpt.text)).filter((word) => words.has(word)).length,
+      }))
+      .sort((a, b) => b.score - a.score || a.position - b.position);
+
+    selected = [];
+    let used = 0;
+    for (const excerpt of scored) {
+      const tokens = estimateTokens(excerpt.text);
+      if (used + tokens > chatConfig.contextTokens) continue;
+      selected.push(excerpt);
+      used += tokens;
+    }
+    selected.sort((a, b) => a.position - b.position);
+  }
+
+  return selected.map(({ text, start }, i) => ({ index: i + 1, text, start }));
+};
+
+const buildChatPrompt = (
+  summary: Summary,
+  excerpts: Excerpt[],
+  history: ChatMessage[],
+  question: string
+): string => `
+      You're answering follow-up questions about a YouTube video using excerpts from its transcript.
+      Answer only from the excerpts and the conversation so far. If they don't contain the answer, say so.
+      Cite the excerpts you used with their numbers in square brackets, for example [2] or [1][4].
+      Answer in the language of the question.
+
+      Video Title: "${summary.title}"
+
+      Video summary:
+      ${summary.fullSummary}
+
+      Transcript excerpts:
+      """
+      ${excerpts
+        .map(({ index, text, start }) =>
+          start !== null ? `[${index}] (${formatTimestamp(start)}) ${text}` : `[${index}] ${text}`
+        )
+        .join("\n")}
+      """
+
+      ${
+        history.length > 0
+          ? `Conversation so far:\n${history
+              .map(({ role, content }) => `${role === "user" ? "User" : "Assistant"}: ${content}`)
+              .join("\n")}`
+          : ""
+      }
+
+      Question: ${question}
+    `;
+
+/**
+ * Map [n] markers in an answer to the excerpts they refer to
+ */
+const extractCitations = (answer: string, excerpts: Excerpt[]): Citation[] => {
+  const cited = new Set(
+    (answer.match(/\[(\d+)\]/g) || []).map((marker) => Number(marker.slice(1, -1)))
+  );
+
+  return excerpts
+    .filter((excerpt) => cited.has(excerpt.index))
+    .map(({ index, text, start }) => ({ excerpt: index, text, start }));
+};
+
+/**
+ * List the conversation about a library entry, oldest first
+ * @throws HttpError 404 when the summary doesn't belong to the user
+ */
+export const listChatMessages = async (userId: string, summaryId: string) => {
+  await findOwnedSummary(userId, summaryId);
+
+  const messages = await prisma.chatMessage.findMany({
+    where: { summaryId },
+    orderBy: { createdAt: "asc" },
+  });
+  return messages.map(serializeChatMessage);
+};
+
+/**
+ * Answer a follow-up question about a library entry from its stored
+ * transcript. A credit is reserved up front and refunded if answering fails
+ * or the caller aborts.
+ * @param userId Owner of the summary
+ * @param summaryId Library entry being discussed
+ * @param request Validated chat request
+ * @param hooks Optional streaming callback and abort signal
+ * @returns The stored question and answer, and the remaining credits
+ */
+export const askAboutVideo = async (
+  userId: string,
+  summaryId: string,
+  request: ChatRequest,
+  hooks: PipelineHooks = {}
+): Promise<ChatAnswer> => {
+  const summary = await findOwnedSummary(userId, summaryId);
+  if (!summary.transcript.trim()) {
+    throw new HttpError(422, "This summary has no stored transcript to chat about", "no_transcript");
+  }
+
+  const history = (
+    await prisma.chatMessage.findMany({
+      where: { summaryId },
+      orderBy: { createdAt: "desc" },
+      take: chatConfig.historyMessages,
+    })
+  ).reverse();
+
+  // Match excerpts against the previous question too, so short follow-ups
+  // like "why?" still find the passage being discussed
+  const previousQuestion = history.filter((message) => message.role === "user").pop();
+  const excerpts = selectExcerpts(
+    splitExcerpts(summary),
+    `${previousQuestion?.content || ""} ${request.question}`
+  );
+
+  const { onDelta, signal } = hooks;
+  const askedAt = new Date();
+  const reservation = await reserveCredits(userId, chatConfig.cost, "chat_message");
+
+  let answer: string;
+  try {
+    answer = await complete(
+      buildChatPrompt(summary, excerpts, history, request.question),
+      request.providerOptions,
+      onDelta &&
+        ((delta) => {
+          if (signal?.aborted) throw clientClosed();
+          onDelta(delta);
+        })
+    );
+
+    if (signal?.aborted) {
+      throw clientClosed();
+    }
+    if (!answer.trim()) {
+      throw new BadResponseError("The model returned an empty answer");
+    }
+  } catch (error) {
+    await refundCredits(reservation, "chat_failed");
+    throw error;
+  }
+
+  const citations = extractCitations(answer, excerpts);
+
+  let saved: ChatMessage[];
+  try {
+    saved = await prisma.$transaction(async (tx) => {
+      const messages = [
+        await tx.chatMessage.create({
+          data: { summaryId, role: "user", content: request.question, createdAt: askedAt },
+        }),
+        await tx.chatMessage.create({
+          data: {
+            summaryId,
+            role: "assistant",
+            content: answer.trim(),
+            citations: citations as unknown as Prisma.InputJsonArray,
+            createdAt: new Date(),
+          },
+        }),
+      ];
+      await linkReservation(reservation, summaryId, tx);
+      return messages;
+    });
+  } catch (error) {
+    await refundCredits(reservation, "chat_save_failed");
+    throw error;
+  }
+
+  const [question, reply] = saved;
+  return {
+    question: serializeChatMessage(question),
+    answer: serializeChatMessage(reply),
+    creditsRemaining: reservation.balance,
+  };
+};
@@ -0,0 +1,36 @@
+import { createLimiter } from "../createLimiter";
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("createLimiter", () => {
+  it("runs at most `limit` tasks at once, in call order", async () => {
+    const limit = createLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const started: number[] = [];
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((n) =>
+        limit(async () => {
+          started.push(n);
+          running++;
+          peak = Math.max(peak, running);
+          await tick();
+          running--;
+          return n * 10;
+        })
+      )
+    );
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(peak).toBe(2);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("frees the slot when a task fails", async () => {
+    const limit = createLimiter(1);
+
+    await expect(limit(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    await expect(limit(async () => "ok")).resolves.toBe("ok");
+  });
+});
@@ -0,0 +1,29 @@
+// src/utils/createLimiter.ts
+
+/**
+ * Create a limiter that runs at most `limit` tasks at once; further tasks
+ * wait in call order. Share one limiter to bound work across callers.
+ * @param limit Maximum number of tasks in flight
+ * @returns Function that runs a task once a slot is free
+ */
+export const createLimiter = (limit: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= Math.max(1, limit)) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next waiter, or free it
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+};
@@ -0,0 +1,17 @@
+// src/utils/httpError.ts
+
+/**
+ * Error carrying the HTTP status a route should respond with, plus an
+ * optional machine-readable code for clients
+ */
+export class HttpError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.code = code;
+  }
+}
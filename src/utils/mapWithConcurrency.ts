@@ -0,0 +1,29 @@
+// src/utils/mapWithConcurrency.ts
+
+/**
+ * Map over items with at most `limit` mapper calls in flight at once
+ * @param items Items to process
+ * @param limit Maximum number of concurrent mapper calls
+ * @param mapper Async function applied to each item
+ * @returns Results in the same order as the input
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+
+  return results;
+};
@@ -0,0 +1,139 @@
+// src/utils/pdf.ts
+
+export interface PdfBlock {
+  text: string;
+  // Headings are set larger and bold
+  heading?: boolean;
+  // Bullet items are indented with a leading dash
+  bullet?: boolean;
+}
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+const BODY_SIZE = 11;
+const HEADING_SIZE = 15;
+const LINE_GAP = 1.35;
+const BULLET_INDENT = 14;
+
+// Average Helvetica glyph width as a fraction of the font size; close enough
+// for wrapping without shipping font metrics
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+/**
+ * Map text onto the WinAnsi characters the built-in PDF fonts can show,
+ * replacing anything else with "?"
+ */
+const toWinAnsi = (text: string): string =>
+  text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/\u2026/g, "...")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+
+const escapePdfString = (text: string): string => text.replace(/([\\()])/g, "\\$1");
+
+const wrap = (text: string, size: number, width: number): string[] => {
+  const maxChars = Math.max(10, Math.floor(width / (size * AVERAGE_CHAR_WIDTH)));
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = "";
+    }
+    // Hard-break words longer than a whole line, e.g. URLs
+    let rest = word;
+    while (rest.length > maxChars) {
+      if (line) {
+        lines.push(line);
+        line = "";
+      }
+      lines.push(rest.slice(0, maxChars));
+      rest = rest.slice(maxChars);
+    }
+    line = line ? `${line} ${rest}` : rest;
+  }
+  if (line) lines.push(line);
+
+  return lines;
+};
+
+/**
+ * Lay out text blocks on Letter pages using the standard Helvetica fonts and
+ * produce a PDF file. Characters outside Latin-1 are replaced.
+ * @param title Document title stored in the PDF metadata
+ * @param blocks Paragraphs, headings and bullet items in reading order
+ * @returns The PDF bytes
+ */
+export const renderPdf = (title: string, blocks: PdfBlock[]): Buffer => {
+  const textWidth = PAGE_WIDTH - 2 * MARGIN;
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const size = block.heading ? HEADING_SIZE : BODY_SIZE;
+    const font = block.heading ? "F2" : "F1";
+    const indent = block.bullet ? BULLET_INDENT : 0;
+    const lines = wrap(toWinAnsi(block.text), size, textWidth - indent);
+    const leading = size * LINE_GAP;
+
+    y -= block.heading ? size * 0.6 : 0;
+    lines.forEach((line, i) => {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      const text = block.bullet && i === 0 ? `- ${line}` : line;
+      const x = MARGIN + (block.bullet && i > 0 ? indent : 0);
+      pages[pages.length - 1].push(
+        `BT /${font} ${size} Tf ${x} ${y.toFixed(2)} Td (${escapePdfString(text)}) Tj ET`
+      );
+    });
+    y -= size * 0.5;
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and
+  // content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${
+    pages.length
+  } >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title (${escapePdfString(toWinAnsi(title))}) /Producer (youtube-summary) >>`;
+
+  pages.forEach((commands, i) => {
+    const content = commands.join("\n");
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(
+      content,
+      "latin1"
+    )} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, "latin1");
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+};
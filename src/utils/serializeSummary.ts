@@ -0,0 +1,91 @@
+// src/utils/serializeSummary.ts
+import {
+  Prisma,
+  Summary,
+  SummaryKind,
+  SummarySegment,
+  SummarySource,
+  SummaryTag,
+  Tag,
+} from "@prisma/client";
+import { Chapter, TranscriptSegment } from "../services/transcriptSegments";
+
+export interface SerializedSummary {
+  id: string;
+  kind: SummaryKind;
+  videoId: string | null;
+  title: string;
+  keyPoints: string[];
+  keyPointStarts: (number | null)[] | null;
+  chapters: Chapter[] | null;
+  topics: string[];
+  sentiment: string | null;
+  style: string;
+  length: string;
+  language: string | null;
+  templateId: string | null;
+  templateVersion: number | null;
+  favorite: boolean;
+  folderId: string | null;
+  tags?: string[];
+  fullSummary: string;
+  // Comparisons only: the synthesis and the summaries it compares
+  comparison?: Prisma.JsonValue;
+  sources?: { id: string; title: string; videoId: string | null; sourceUrl: string }[];
+  sourceUrl: string;
+  metadata: Prisma.JsonValue | null;
+  segments?: TranscriptSegment[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Convert a stored Summary row into the shape returned to the extension
+ * @param summary Summary row as loaded by Prisma, optionally with its segments,
+ * tags and comparison sources
+ * @returns Summary fields ready to be sent as JSON
+ */
+export const serializeSummary = (
+  summary: Omit<Summary, "embedding"> & {
+    segments?: SummarySegment[];
+    tags?: (SummaryTag & { tag: Tag })[];
+    sources?: (SummarySource & {
+      source: Pick<Summary, "id" | "title" | "videoId" | "videoUrl">;
+    })[];
+  }
+): SerializedSummary => ({
+  id: summary.id,
+  kind: summary.kind,
+  videoId: summary.videoId,
+  title: summary.title,
+  keyPoints: summary.keyPoints,
+  keyPointStarts: summary.keyPointStarts as (number | null)[] | null,
+  chapters: summary.chapters as unknown as Chapter[] | null,
+  topics: summary.topics,
+  sentiment: summary.sentiment,
+  style: summary.style,
+  length: summary.length,
+  language: summary.language,
+  templateId: summary.templateId,
+  templateVersion: summary.templateVersion,
+  favorite: summary.favorite,
+  folderId: summary.folderId,
+  ...(summary.tags && { tags: summary.tags.map(({ tag }) => tag.name) }),
+  fullSummary: summary.fullSummary,
+  ...(summary.kind === "comparison" && { comparison: summary.comparison }),
+  ...(summary.sources && {
+    sources: summary.sources.map(({ source }) => ({
+      id: source.id,
+      title: source.title,
+      videoId: source.videoId,
+      sourceUrl: source.videoUrl,
+    })),
+  }),
+  sourceUrl: summary.videoUrl,
+  metadata: summary.metadata,
+  ...(summary.segments && {
+    segments: summary.segments.map(({ start, duration, text }) => ({ start, duration, text })),
+  }),
+  createdAt: summary.createdAt,
+  updatedAt: summary.updatedAt,
+});
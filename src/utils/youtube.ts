@@ -0,0 +1,64 @@
+// src/utils/youtube.ts
+
+const VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+// Playlist ids are a type prefix (PL, UU, OL, RD, ...) plus an id
+const PLAYLIST_ID = /^[A-Za-z0-9_-]{12,64}$/;
+
+/**
+ * Extract the canonical 11-character YouTube video id from a raw id or any
+ * common URL form (watch?v=, youtu.be/, /shorts/, /embed/, /live/, with or
+ * without extra query parameters like &t= or &list=)
+ * @param input Video id or URL
+ * @returns The video id, or null when none can be found
+ */
+export const extractVideoId = (input: unknown): string | null => {
+  if (typeof input !== "string") return null;
+  const value = input.trim();
+  if (VIDEO_ID.test(value)) return value;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www\.|m\.|music\.)/, "");
+  let candidate: string | null = null;
+
+  if (host === "youtu.be") {
+    candidate = url.pathname.split("/")[1] || null;
+  } else if (host === "youtube.com" || host === "youtube-nocookie.com") {
+    const [, first, second] = url.pathname.split("/");
+    candidate = ["shorts", "embed", "live", "v"].includes(first)
+      ? second || null
+      : url.searchParams.get("v");
+  }
+
+  return candidate && VIDEO_ID.test(candidate) ? candidate : null;
+};
+
+/**
+ * Canonical watch URL for a video id
+ */
+export const canonicalVideoUrl = (videoId: string): string =>
+  `https://www.youtube.com/watch?v=${videoId}`;
+
+/**
+ * Extract a playlist id from a raw id or a URL with a list= parameter
+ * @param input Playlist id or URL
+ * @returns The playlist id, or null when none can be found
+ */
+export const extractPlaylistId = (input: unknown): string | null => {
+  if (typeof input !== "string") return null;
+  const value = input.trim();
+  if (PLAYLIST_ID.test(value)) return value;
+
+  try {
+    const candidate = new URL(/^[a-z]+:\/\//i.test(value) ? value : `https://${value}`)
+      .searchParams.get("list");
+    return candidate && PLAYLIST_ID.test(candidate) ? candidate : null;
+  } catch {
+    return null;
+  }
+};